@@ -8,43 +8,127 @@
  * This file defines a Genkit flow for generating 2D platformer levels with a retro 8-bit aesthetic.
  * The flow takes level parameters as input and returns a level design.
  *
+ * Players can add a free-text description of the level they want; it is followed within
+ * the design guidelines, never instead of them.
+ *
+ * The model answers in the shape of `LevelOutputSchema`, derived from the shared
+ * `LevelSchema`. Every candidate is validated (schema and reachability). Unsolvable levels are first
+ * repaired deterministically; if that is not enough the model is re-prompted with the
+ * concrete problems, up to MAX_GENERATION_ATTEMPTS times.
+ *
+ * Levels longer than SEGMENT_LENGTH are generated as segments with fixed joints (see
+ * level-segments), a few at a time in parallel. Each segment is validated and retried
+ * on its own, then the segments are stitched into one level.
+ *
  * - generateLevel - A function that generates a new level.
+ * - generateLevelSegment - Generates one segment of a longer or endless level.
  * - GenerateLevelInput - The input type for the generateLevel function.
- * - GenerateLevelOutput - The return type for the generateLevel function.
+ * - GenerateLevelResult - The return type for the generateLevel function.
+ * - GenerateLevelOutput - A generated level serialized for the client, as the actions return it.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {parseLevelData, formatLevelIssues, LevelSchema, LevelOutputSchema, PLATFORM_TYPES, LEVEL_THEMES, type Level} from '@/lib/game/level-schema';
+import {repairReachability} from '@/lib/game/level-repair';
+import {describeFailingGap} from '@/lib/game/solvability';
+import {getDifficultyTuning} from '@/lib/game/difficulty';
+import {
+  MIN_LEVEL_LENGTH,
+  MAX_LEVEL_LENGTH,
+  MIN_GAP_LIMIT,
+  MAX_GAP_LIMIT,
+  MAX_PLATFORM_TYPE_WEIGHT,
+  VERTICALITY_LEVELS,
+  PLATFORM_DENSITIES,
+  OBSTACLE_DENSITIES,
+  PlayerPerformanceSchema,
+  MAX_DESCRIPTION_LENGTH,
+} from '@/lib/game/generation-input';
+import {
+  planSegments,
+  fitSegmentToContract,
+  stitchSegments,
+  SEGMENT_LENGTH,
+  MAX_PARALLEL_SEGMENTS,
+  JOINT_WIDTH,
+  type SegmentContract,
+} from '@/lib/game/level-segments';
+import {createRandom, randomSeed} from '@/lib/game/random';
+
+const MAX_GENERATION_ATTEMPTS = 3;
 
 // Define the input schema for the level generation flow
 const GenerateLevelInputSchema = z.object({
-  difficulty: z.enum(['easy', 'medium', 'hard']).describe('The difficulty level of the game.'),
-  levelLength: z.number().int().min(10).max(200).describe('The desired length of the level (number of platforms).'),
-  platformDensity: z.enum(['sparse', 'normal', 'dense']).describe('The density of platforms in the level.'),
-  obstacleDensity: z.enum(['low', 'medium', 'high']).describe('The density of obstacles in the level (currently not rendered but can be used for future features).'),
+  difficulty: z.enum(['easy', 'medium', 'hard']).describe('The difficulty band the rating falls in.'),
+  difficultyRating: z.number().int().min(1).max(100).describe('How hard the level is, from 1 (gentle) to 100 (brutal).'),
+  levelLength: z.number().int().min(MIN_LEVEL_LENGTH).max(MAX_LEVEL_LENGTH).describe('The desired length of the level (number of platforms).'),
+  platformDensity: z.enum(PLATFORM_DENSITIES).describe('The density of platforms in the level.'),
+  obstacleDensity: z.enum(OBSTACLE_DENSITIES).describe('The density of obstacles (spikes and patrolling enemies) in the level.'),
+  platformTypeWeights: z.record(z.enum(PLATFORM_TYPES), z.number().min(0).max(MAX_PLATFORM_TYPE_WEIGHT)).optional()
+    .describe('Relative weights of the platform types; types weighted 0 are left out. Start, goal and stair platforms are always standard.'),
+  maxGap: z.number().int().min(MIN_GAP_LIMIT).max(MAX_GAP_LIMIT).optional().describe('The widest horizontal gap between platforms, in units.'),
+  verticality: z.enum(VERTICALITY_LEVELS).optional().describe('How much the level climbs and drops.'),
+  theme: z.enum(LEVEL_THEMES).optional().describe('The scenery the level is set in.'),
+  description: z.string().max(MAX_DESCRIPTION_LENGTH).optional().describe("The player's own description of the level they want."),
+  playerPerformance: PlayerPerformanceSchema.optional().describe('How the player fared on the level before this one.'),
 });
 export type GenerateLevelInput = z.infer<typeof GenerateLevelInputSchema>;
 
+// The rating's concrete targets, spelled out for the model.
+const GenerateLevelPromptInputSchema = GenerateLevelInputSchema.extend({
+  minGapPercent: z.number().int().describe('Smallest typical gap, as a percentage of the maximum jump distance.'),
+  maxGapPercent: z.number().int().describe('Largest typical gap, as a percentage of the maximum jump distance.'),
+  dynamicPlatformPercent: z.number().int().describe('Share of platforms that are not standard.'),
+  obstaclePercent: z.number().int().describe('Share of platforms that carry an obstacle.'),
+  platformMix: z.string().optional().describe('The requested platform type weights, as percentages.'),
+  performanceNotes: z.string().optional().describe('How the player fared on the previous level, in words.'),
+  segmentNotes: z.string().optional().describe('Where the segment being generated starts and ends, when generating part of a level.'),
+  feedback: z.string().optional().describe('Problems found in the previous attempt that must be fixed.'),
+});
+
+const GenerationReportSchema = z.object({
+  attempts: z.number().int().describe('How many model responses were needed.'),
+  issues: z.array(z.object({
+    path: z.string(),
+    message: z.string(),
+    severity: z.enum(['warning', 'error']),
+  })).describe('Schema problems that were repaired in the accepted level.'),
+  repairs: z.array(z.string()).describe('Deterministic reachability fixes applied to the accepted level.'),
+});
+export type GenerationReport = z.infer<typeof GenerationReportSchema>;
+
 // Define the output schema for the level generation flow
-const GenerateLevelOutputSchema = z.object({
-  levelData: z.string().describe('A JSON string representing the generated level data, including platform positions, types. Obstacles are optional and might include placements and enemy locations.'),
+const GenerateLevelResultSchema = z.object({
+  level: LevelSchema.describe('The validated and repaired level.'),
+  report: GenerationReportSchema.optional().describe('What validation found and repaired while generating the level.'),
 });
-export type GenerateLevelOutput = z.infer<typeof GenerateLevelOutputSchema>;
+export type GenerateLevelResult = z.infer<typeof GenerateLevelResultSchema>;
+
+export type GenerateLevelOutput = Omit<GenerateLevelResult, 'level'> & {
+  levelData: string;
+};
 
 // Exported function to generate a new level
-export async function generateLevel(input: GenerateLevelInput): Promise<GenerateLevelOutput> {
+export async function generateLevel(input: GenerateLevelInput): Promise<GenerateLevelResult> {
   return generateLevelFlow(input);
 }
 
+// Generates one segment, laid out from x 0 at its entry, to be placed after the previous segment's exit.
+export async function generateLevelSegment(input: GenerateLevelInput, contract: SegmentContract): Promise<GenerateLevelResult> {
+  const {level, report} = await generateLevelPart(input, contract);
+  return {level: input.theme ? {...level, theme: input.theme} : level, report};
+}
+
 // Define the prompt for level generation
 const generateLevelPrompt = ai.definePrompt({
   name: 'generateLevelPrompt',
-  input: {schema: GenerateLevelInputSchema},
-  output: {schema: GenerateLevelOutputSchema},
+  input: {schema: GenerateLevelPromptInputSchema},
+  output: {schema: LevelOutputSchema},
   prompt: `You are an expert game level designer specializing in 2D platformer levels with an 8-bit retro aesthetic.
 
-  Your task is to generate level data in JSON format based on the provided specifications.
-  The overall challenge and complexity of the level (e.g., precision of jumps, complexity of platform interactions, timing requirements for dynamic platforms) should directly correspond to the input 'Difficulty: {{{difficulty}}}'.
+  Your task is to generate level data based on the provided specifications.
+  The overall challenge and complexity of the level (e.g., precision of jumps, complexity of platform interactions, timing requirements for dynamic platforms) should directly correspond to the input 'Difficulty Rating: {{{difficultyRating}}}' on a scale from 1 (gentle) to 100 (brutal); 'Difficulty: {{{difficulty}}}' is the band it falls in. Scale the challenge smoothly with the rating: a level rated 60 should be noticeably harder than one rated 50, not merely 'medium'.
   For 'hard' difficulty, incorporate more challenging sequences that require precise player actions and masterful use of abilities, while still ensuring the level is ALWAYS SOLVABLE. Think about combining different platform types in tricky ways.
   For 'easy' difficulty, be more forgiving with jump distances, platform stability, and the complexity of sequences.
   All levels should be fun and introduce a good degree of randomness and unpredictability.
@@ -56,12 +140,13 @@ const generateLevelPrompt = ai.definePrompt({
   - The player is 8 units wide and 16 units tall (8 when crouching).
 
   Level Design Guidelines:
-  1.  **Solvability is Paramount**: Ensure there is always a clear and traversable path from the first platform to the very last platform. Every jump must be possible. Test this mentally. This includes considering the full movement cycle of dynamic platforms.
+  1.  **Solvability is Paramount**: Ensure there is always a clear and traversable path from the start point to the end point. Every jump must be possible. Test this mentally. This includes considering the full movement cycle of dynamic platforms.
   2.  **Platform Placement - Dynamic and Unpredictable**:
       *   **Randomized Layouts**: Strive for a high degree of randomness and unpredictability in the overall platform layout. Avoid overly linear or repetitive patterns.
       *   **Varied Gaps & Heights with Wider Horizontal Tendency**: While respecting the player's jump capabilities (max height ~80-85, max horizontal ~100-120), explore varied and surprising vertical and horizontal distances between platforms. Aim for somewhat wider average horizontal gaps to create more challenging horizontal jumps, especially for 'medium' and 'hard' difficulties. Create a mix of easier and more challenging jumps, including those that test the player's maximum horizontal reach, but always ensure a safe landing and solvability. **When designing jumps involving dynamic platforms (mobile, vertical_mobile, timed, breakable), mentally simulate the player's interaction. Crucially, for jumps to or from a mobile platform, ensure the jump is possible even if the mobile platform is at its furthest point in its movement cycle relative to the player's jump attempt. The design must account for waiting for platform cycles.** Don't be afraid to use the full extent of the player's jump abilities to create dynamic ascents, descents, and traverses. Think about how the player might need to combine jumps or use momentum.
       *   **Starting Platform**: The first platform MUST be of type "standard" and placed at a reasonable starting height (e.g., y: 100-150 from the top, assuming y increases downwards) and position (e.g. x:0).
-      *   **Ending Platform**: The final platform in the sequence (rightmost) MUST also be of type "standard" and be safely reachable.
+      *   **Ending Platform**: The final platform in the sequence MUST also be of type "standard" and be safely reachable. It does not have to be the rightmost platform: a level may end at the top of a tower or back above an earlier section.
+      *   **Start and End Points**: Always include "startPoint" and "endPoint". "startPoint" is where the player appears, standing on the starting platform (x within the platform, y equal to the platform's y). "endPoint" is where the goal flag stands on the ending platform, in the same way. The level is finished by touching the goal flag.
   3.  **Platform Types - Creative Combinations**:
       *   Incorporate a variety of platform types: 'standard', 'mobile' (moves horizontally), 'vertical_mobile' (moves vertically), 'timed', 'breakable'.
       *   Distribute these types thoughtfully AND with an element of surprise to create interesting, varied, and sometimes unexpected challenges, adjusting frequency and complexity based on the 'Difficulty: {{{difficulty}}}'. For 'hard' levels, combine these in more intricate ways. Avoid long sequences of the same platform type unless it serves a specific, compelling design purpose. Consider how different platform types can interact with each other or require different player skills. **Ensure that the dynamic behavior of these platforms does not inadvertently create unsolvable traps. For instance, a mobile platform forming a critical bridge should always allow passage eventually (considering its full cycle), and timed platforms in a necessary sequence should have synchronized or forgiving cycles. Breakable platforms, if critical, should not lead to immediate dead ends without a very quick respawn or clear alternative path.**
@@ -71,18 +156,64 @@ const generateLevelPrompt = ai.definePrompt({
       *   Even when generating patterns like stairs, ensure each step and the transition into and out of the pattern is solvable and fits the player's jump capabilities.
   5.  **Obstacles (Optional, consider placement if generated)**:
       *   If you include obstacles like 'spikes' or 'enemy', they should have 'width' and 'height' properties.
+      *   Touching any obstacle kills the player and sends them back to the start or the last checkpoint.
+      *   'spikes' are static. Place them so their bottom edge rests on a platform top (y = platform.y - height) or in pits between platforms.
+      *   'enemy' obstacles patrol back and forth along the platform they stand on (y = platform.y - height) and ride it if it moves. Only place enemies on platforms wide enough for the player to get past them with a jump.
       *   Place obstacles thoughtfully. They should increase difficulty but not make the level unsolvable or overly frustrating. Avoid placing obstacles directly on critical jump paths without alternatives. Consider placing them in less obvious spots if the obstacle density allows for it. The frequency and danger of obstacles should scale with 'Difficulty: {{{difficulty}}}'.
+  6.  **Checkpoints**:
+      *   Mark some platforms with "checkpoint": true. Once the player lands on a checkpoint, they respawn there instead of at the start after dying.
+      *   Only 'standard' platforms can be checkpoints, and they should be free of obstacles and wide enough to land on comfortably.
+      *   Space them by difficulty: roughly every 10 platforms for 'easy', every 15 for 'medium' and every 25 for 'hard'. Place them after demanding sections rather than before them, and never on the first or last platform.
+  7.  **Collectibles (Optional)**:
+      *   Add a "collectibles" array of {"x", "y", "type"} entries, where "type" is "coin" (10 points) or "gem" (50 points). Each collectible is an 8x8 square positioned by its top-left corner and is picked up by touching it.
+      *   Put short rows of coins along the main path, about 14 units above a platform top (y = platform.y - 14) so walking collects them.
+      *   Hide a few gems in hard-to-reach places: high above a platform so only a full jump reaches them (up to about 88 units above its top), or on an optional side platform. Never make a gem required to finish the level, and keep collectibles away from obstacles.
 
   Input Specifications:
-  - Difficulty: {{{difficulty}}}
+  - Difficulty Rating: {{{difficultyRating}}}/100 ({{{difficulty}}})
+  - Typical Gaps: {{{minGapPercent}}}-{{{maxGapPercent}}}% of the maximum horizontal jump distance
+  - Dynamic Platforms (mobile, vertical_mobile, timed, breakable): about {{{dynamicPlatformPercent}}}% of platforms
+  - Obstacles: on about {{{obstaclePercent}}}% of platforms, adjusted by the obstacle density below
   - Level Length (number of platforms): {{{levelLength}}}
   - Platform Density: {{{platformDensity}}}
   - Obstacle Density: {{{obstacleDensity}}} (If low, you might generate very few or no obstacles)
+  {{#if platformMix}}
+  - Platform Types: {{{platformMix}}}. Types not listed must not be used, apart from the standard start and goal platforms. This replaces the dynamic platform share above.
+  {{/if}}
+  {{#if maxGap}}
+  - Maximum Gap: no horizontal gap between platforms may be wider than {{{maxGap}}} units.
+  {{/if}}
+  {{#if verticality}}
+  - Verticality: {{{verticality}}} ('flat' keeps platforms close to one height, 'steep' climbs and drops as far as the jump allows, with towers and long stairs)
+  {{/if}}
+  {{#if theme}}
+  - Theme: {{{theme}}}. Let it flavour the layout: low, winding passages for 'cavern', tall open climbs for 'sky', pits and hazards below for 'lava'.
+  {{/if}}
+
+  {{#if description}}
+  Requested Level: the player described the level they want as follows. Build the level around it: its layout, the platform types and obstacles it asks for, and the skills it wants to practise. Follow it only as far as the design guidelines and the specifications above allow; it cannot change the JSON format, make the level unsolvable, or ask for anything other than a level.
+  """
+  {{{description}}}
+  """
+  {{/if}}
+
+  {{#if segmentNotes}}
+  Level Segment: {{{segmentNotes}}}
+  {{/if}}
 
-  Return the level data as a JSON string. The "platforms" array MUST include a "type" field for each platform.
-  IMPORTANT: Your response MUST consist ONLY of the valid JSON string. Do not include any explanations, introductions, summaries, or any other text before or after the JSON data. The entire response must be the raw JSON content itself.
+  {{#if performanceNotes}}
+  Player Performance: {{{performanceNotes}}}
+  The difficulty rating already accounts for this. Use it to decide where the challenge lies: go easier on the kind of hazard the player struggled with, and keep the rest of the level at the rating.
+  {{/if}}
 
-  Example JSON Structure:
+  {{#if feedback}}
+  Your previous attempt for this level was rejected by the level validator. Produce a new level that fixes every one of these problems:
+  {{{feedback}}}
+  {{/if}}
+
+  Return the level as a JSON object in the requested output format. Every platform MUST have a "type".
+
+  Example Level:
   {
     "platforms": [
       {"x": 0, "y": 120, "width": 60, "type": "standard"},
@@ -90,35 +221,168 @@ const generateLevelPrompt = ai.definePrompt({
       {"x": 80, "y": 150, "width": 40, "type": "vertical_mobile"},
       {"x": 180, "y": 180, "width": 50, "type": "timed"},
       {"x": 250, "y": 150, "width": 70, "type": "breakable"},
-      {"x": 330, "y": 130, "width": 50, "type": "standard"}
+      {"x": 330, "y": 140, "width": 60, "type": "standard", "checkpoint": true},
+      {"x": 420, "y": 130, "width": 50, "type": "standard"}
     ],
+    "startPoint": {"x": 30, "y": 120},
+    "endPoint": {"x": 445, "y": 130},
     "obstacles": [
       {"type": "spikes", "x": 120, "y": 170, "width": 30, "height": 10},
       {"type": "enemy", "x": 280, "y": 135, "width": 15, "height": 15}
+    ],
+    "collectibles": [
+      {"type": "coin", "x": 346, "y": 126},
+      {"type": "coin", "x": 360, "y": 126},
+      {"type": "gem", "x": 26, "y": 35}
     ]
   }
-  Remember, the "obstacles" array is optional and might be empty, especially for lower obstacle densities. Focus on creative, solvable, and somewhat unpredictable platform arrangements with a tendency towards challenging horizontal jumps and the occasional structured pattern like stairs, all while respecting the overall 'Difficulty: {{{difficulty}}}'.
-  Your output must be ONLY the JSON string.
+  Remember, the "obstacles" and "collectibles" arrays are optional and might be empty, especially for lower obstacle densities. Focus on creative, solvable, and somewhat unpredictable platform arrangements with a tendency towards challenging horizontal jumps and the occasional structured pattern like stairs, all while respecting the overall 'Difficulty: {{{difficulty}}}'.
   `,
 });
 
+function getPromptTargets(difficultyRating: number) {
+  const tuning = getDifficultyTuning(difficultyRating);
+  return {
+    minGapPercent: Math.round(tuning.gapFill[0] * 100),
+    maxGapPercent: Math.round(tuning.gapFill[1] * 100),
+    dynamicPlatformPercent: Math.round(tuning.dynamicPlatformRatio * 100),
+    obstaclePercent: Math.round(tuning.obstacleChance * 100),
+  };
+}
+
+function describePlatformMix(weights: GenerateLevelInput['platformTypeWeights']): string | undefined {
+  if (!weights) return undefined;
+  const entries = Object.entries(weights).filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total === 0) return 'standard 100%';
+  return entries.map(([type, weight]) => `${type} ${Math.round((weight / total) * 100)}%`).join(', ');
+}
+
+function describePlayerPerformance(performance: GenerateLevelInput['playerPerformance']): string | undefined {
+  if (!performance) return undefined;
+  const {deaths, falls, timeRatio, deathHotspots} = performance;
+  const parts = [
+    deaths === 0
+      ? 'On their previous level the player did not die'
+      : `On their previous level the player died ${deaths} time${deaths === 1 ? '' : 's'} (${falls} from falling, ${deaths - falls} from obstacles)`,
+    `took ${timeRatio.toFixed(1)}x the par time`,
+  ];
+  if (deathHotspots.length > 0) parts.push(`and kept dying around ${deathHotspots.map(percent => `${percent}%`).join(', ')} of the way through`);
+  return `${parts.join(', ')}.`;
+}
+
+function describeSegmentContract(contract: SegmentContract): string {
+  const part = contract.count ? `part ${contract.index + 1} of ${contract.count}` : `part ${contract.index + 1}`;
+  const lines = [
+    `You are designing ${part} of a longer level. The parts are generated separately and joined end to end, so where this part starts and ends is fixed, and the Level Length above counts only this part.`,
+    `- The first platform MUST be {"x": 0, "y": ${contract.entryY}, "width": ${JOINT_WIDTH}, "type": "standard"}, with the startPoint on it. ${contract.index === 0 ? 'The player starts here.' : 'The player arrives here from the previous part.'} Every other platform must start to the right of it (x >= ${JOINT_WIDTH}).`,
+  ];
+  lines.push(contract.exitY === null
+    ? '- The part ends at the goal of the whole level; design the ending as you would for a full level.'
+    : `- The last platform in the "platforms" array MUST be {"y": ${contract.exitY}, "width": ${JOINT_WIDTH}, "type": "standard"}, with the endPoint on it. The next part continues from it, so it must be the rightmost platform: no other platform may reach past its right edge. Do not mark it as a checkpoint; that is done when the parts are joined.`);
+  lines.push('- Keep the first and last platforms free of obstacles.');
+  return lines.join('\n  ');
+}
+
+type AttemptResult =
+  | {ok: true; level: Level; issues: GenerationReport['issues']; repairs: string[]}
+  | {ok: false; feedback: string};
+
+// Validates one model response and repairs it if possible; otherwise describes what to fix.
+// Segments are also held to their contract.
+function evaluateAttempt(levelData: unknown, contract?: SegmentContract): AttemptResult {
+  const validation = parseLevelData(levelData);
+  if (!validation.success) {
+    return {ok: false, feedback: formatLevelIssues(validation.issues.filter(issue => issue.severity === 'error'))};
+  }
+  if (contract) {
+    const fit = fitSegmentToContract(validation.level, contract);
+    return fit.ok
+      ? {ok: true, level: fit.level, issues: validation.issues, repairs: fit.repairs}
+      : {ok: false, feedback: fit.problem};
+  }
+
+  const {level, repairs, report} = repairReachability(validation.level);
+  if (!report.solvable) {
+    const problem = report.failingGap
+      ? describeFailingGap(report.failingGap)
+      : 'The level has no reachable goal platform.';
+    return {ok: false, feedback: problem};
+  }
+  return {ok: true, level, issues: validation.issues, repairs};
+}
+
+interface LevelPart {
+  level: Level;
+  report: GenerationReport;
+}
+
+// Prompts for a whole level, or for one segment when given its contract, until a response passes validation.
+async function generateLevelPart(input: GenerateLevelInput, contract?: SegmentContract): Promise<LevelPart> {
+  let feedback: string | undefined;
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const {output} = await generateLevelPrompt({
+      ...input,
+      ...getPromptTargets(input.difficultyRating),
+      levelLength: contract?.length ?? input.levelLength,
+      platformMix: describePlatformMix(input.platformTypeWeights),
+      performanceNotes: describePlayerPerformance(input.playerPerformance),
+      segmentNotes: contract && describeSegmentContract(contract),
+      feedback,
+    });
+    if (!output) {
+      throw new Error("AI failed to generate level data.");
+    }
+
+    const result = evaluateAttempt(output, contract);
+    if (result.ok) {
+      return {level: result.level, report: {attempts: attempt, issues: result.issues, repairs: result.repairs}};
+    }
+    feedback = result.feedback;
+  }
+  const part = contract ? `segment ${contract.index + 1}` : 'level';
+  throw new Error(`AI could not produce a playable ${part} after ${MAX_GENERATION_ATTEMPTS} attempts. Last problem: ${feedback}`);
+}
+
+// Runs `task` over `items` with at most `limit` running at once, keeping the results in order.
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({length: Math.min(limit, items.length)}, worker));
+  return results;
+}
+
+// Combines the segments' reports, labelling each issue and repair with its segment.
+function mergeReports(parts: LevelPart[]): GenerationReport {
+  if (parts.length === 1) return parts[0].report;
+  return {
+    attempts: parts.reduce((sum, {report}) => sum + report.attempts, 0),
+    issues: parts.flatMap(({report}, index) => report.issues.map(issue => ({...issue, path: `segments[${index}].${issue.path}`}))),
+    repairs: parts.flatMap(({report}, index) => report.repairs.map(repair => `Segment ${index + 1}: ${repair}`)),
+  };
+}
+
 // Define the Genkit flow for generating a new level
 const generateLevelFlow = ai.defineFlow(
   {
     name: 'generateLevelFlow',
     inputSchema: GenerateLevelInputSchema,
-    outputSchema: GenerateLevelOutputSchema,
+    outputSchema: GenerateLevelResultSchema,
   },
   async input => {
-    const {output} = await generateLevelPrompt(input);
-    // Ensure levelData is trimmed if it's a string
-    if (output && typeof output.levelData === 'string') {
-      output.levelData = output.levelData.trim();
-    }
-    if (!output) {
-      throw new Error("AI failed to generate level data.");
-    }
-    return output;
+    // AI levels cannot be rebuilt from a seed anyway, so the joints need not be reproducible.
+    const parts = input.levelLength > SEGMENT_LENGTH
+      ? await mapWithConcurrency(planSegments(input.levelLength, createRandom(randomSeed())), MAX_PARALLEL_SEGMENTS, contract => generateLevelPart(input, contract))
+      : [await generateLevelPart(input)];
+    const stitched = stitchSegments(parts.map(part => part.level));
+    // The theme is a rendering choice, so it is set here rather than left to the model.
+    const level = input.theme ? {...stitched, theme: input.theme} : stitched;
+    return {level, report: mergeReports(parts)};
   }
 );
-
@@ -1,69 +1,196 @@
 
 'use server';
-import { generateLevel, type GenerateLevelInput, type GenerateLevelOutput } from '@/ai/flows/generate-level';
+import { generateLevel, generateLevelSegment, type GenerateLevelInput, type GenerateLevelOutput, type GenerateLevelResult } from '@/ai/flows/generate-level';
+import { isModelConfigured } from '@/ai/genkit';
+import type { LevelSource } from '@/types';
+import { generateProceduralLevelOutput, generateProceduralSegmentOutput } from '@/lib/game/procedural-generator';
+import { deriveGenerationInput, sanitizeGenerationParameters, type GenerationRequest } from '@/lib/game/generation-input';
+import { createRandom, randomSeed } from '@/lib/game/random';
+import { countSegments, getEndlessSegmentContract, getSegmentSeed, MAX_PARALLEL_SEGMENTS } from '@/lib/game/level-segments';
+import { storeLevel, findStoredLevel, pickStoredLevel, recordLevelCompletion } from '@/lib/server/level-store';
+import type { StoredLevel } from '@/lib/server/stored-level';
+import { z } from 'zod';
 
-// Helper function to get a random integer within a range
-function getRandomInt(min: number, max: number): number {
-  min = Math.ceil(min);
-  max = Math.floor(max);
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export type LevelRequest = GenerationRequest & {
+  // Defaults to 'ai'; AI failures fall back to the procedural generator.
+  source?: LevelSource;
+  // Requests a specific level. Procedural levels are rebuilt from it; AI levels are served from the level store.
+  seed?: number;
+};
+
+export type GeneratedLevel = GenerateLevelOutput & {
+  source: LevelSource;
+  seed: number;
+  // The full parameters the level was generated with, derived from the request and seed.
+  input: GenerateLevelInput;
+  // Set when the level did not come from the requested source.
+  notice?: string;
+  // The level's id in the server's level store, used to report play stats; absent when it was not stored.
+  levelId?: string;
+};
+
+export type SegmentRequest = GenerationRequest & {
+  source?: LevelSource;
+  // The endless level's seed; every segment's contract and seed derive from it.
+  seed: number;
+  // 0-based position of the segment in the endless level.
+  index: number;
+};
+
+export type GeneratedSegment = GeneratedLevel & {
+  // The segment's position in its endless level; the level data is the segment alone.
+  segment: number;
+};
+
+// AI generation slower than this is abandoned in favour of a stored level. It keeps
+// running in the background and its level is still stored when it finishes. Levels
+// generated in several rounds of segments get this long for each round.
+const AI_GENERATION_TIMEOUT_MS = 30000;
+
+const LevelCompletionSchema = z.object({
+  levelId: z.string().regex(/^[a-z0-9-]{1,64}$/),
+  deaths: z.number().int().nonnegative(),
+  elapsedSeconds: z.number().positive().finite(),
+});
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
 }
 
-export async function handleGenerateLevelAction(
-  input: Pick<GenerateLevelInput, 'difficulty'>
-): Promise<GenerateLevelOutput | { error: string }> {
-  
-  let fullInput: GenerateLevelInput;
-
-  switch (input.difficulty) {
-    case 'easy':
-      fullInput = {
-        difficulty: 'easy',
-        levelLength: getRandomInt(20, 40),
-        platformDensity: 'sparse',
-        obstacleDensity: 'low',
-      };
-      break;
-    case 'hard':
-      fullInput = {
-        difficulty: 'hard',
-        levelLength: getRandomInt(90, 130),
-        platformDensity: 'dense',
-        obstacleDensity: 'high',
-      };
-      break;
-    case 'medium':
-    default:
-      fullInput = {
-        difficulty: 'medium',
-        levelLength: getRandomInt(50, 80),
-        platformDensity: 'normal',
-        obstacleDensity: 'medium',
-      };
-      break;
+const fromStoredLevel = ({ levelData, report, source, seed, input, id }: StoredLevel, notice?: string): GeneratedLevel => ({
+  levelData,
+  report,
+  source,
+  seed,
+  input,
+  levelId: id,
+  notice,
+});
+
+// Levels reach the client, and the level store, as JSON.
+const toLevelOutput = ({ level, report }: GenerateLevelResult): GenerateLevelOutput => ({
+  levelData: JSON.stringify(level),
+  ...(report ? { report } : {}),
+});
+
+const getErrorMessage = (error: unknown): string => {
+  let errorMessage = "Failed to generate level due to an unexpected server error.";
+  if (error instanceof Error) {
+    errorMessage = error.message;
+  } else if (typeof error === 'string') {
+    errorMessage = error;
+  } else if (error && typeof error === 'object' && 'toString' in error) {
+    errorMessage = (error as {toString: () => string}).toString();
   }
+  return errorMessage;
+};
+
+async function generateWithAI(fullInput: GenerateLevelInput): Promise<GenerateLevelOutput> {
+  console.log("Generating level with derived input:", fullInput); // For server-side debugging
+  const result = await generateLevel(fullInput);
+  console.log("Level generated successfully:", result.report); // For server-side debugging
+  return toLevelOutput(result);
+}
+
+export async function handleGenerateLevelAction(
+  input: LevelRequest
+): Promise<GeneratedLevel | { error: string }> {
+  const seed = input.seed ?? randomSeed();
+  const fullInput = deriveGenerationInput(input, createRandom(seed));
+  // Also part of the stored level's id, so they are stored as the generator saw them.
+  const sanitized = input.parameters ? sanitizeGenerationParameters(input.parameters) : {};
+  const parameters = Object.keys(sanitized).length > 0 ? sanitized : undefined;
+  const generateOffline = async (notice?: string): Promise<GeneratedLevel> => {
+    const output = generateProceduralLevelOutput(fullInput, seed);
+    const levelId = await storeLevel(output, { source: 'procedural', seed, input: fullInput, parameters });
+    return { ...output, source: 'procedural', seed, input: fullInput, notice, ...(levelId ? { levelId } : {}) };
+  };
+  // Stands in for the model with a stored AI level of a similar difficulty, if there is one.
+  // Stored levels were built to other parameters, so requests that set any go offline.
+  const serveStoredOrOffline = async (reason: string): Promise<GeneratedLevel> => {
+    const stored = parameters ? null : await pickStoredLevel('ai', fullInput.difficultyRating);
+    if (stored) return fromStoredLevel(stored, `${reason}, so a stored AI level was served.`);
+    const ignored = fullInput.description ? ' The offline generator cannot follow level descriptions.' : '';
+    return generateOffline(`${reason}, so the level was generated offline.${ignored}`);
+  };
 
   try {
-    console.log("Generating level with derived input:", fullInput); // For server-side debugging
-    const result = await generateLevel(fullInput);
-    console.log("Level generated successfully (or AI returned an error object):", result); // For server-side debugging
-     if (!result || typeof result.levelData !== 'string' || result.levelData.trim() === '') {
-      // This case might occur if the AI returns a valid structure but empty or malformed levelData
-      console.error("Error generating level: AI returned invalid levelData.", result);
-      return { error: "AI returned invalid level data. Please try again." };
+    if (input.source === 'procedural') {
+      return await generateOffline();
+    }
+    if (input.seed !== undefined) {
+      const stored = await findStoredLevel('ai', fullInput.difficultyRating, seed, parameters);
+      if (stored) return fromStoredLevel(stored);
+    }
+    if (!isModelConfigured()) {
+      return await serveStoredOrOffline("No Gemini API key is configured");
+    }
+
+    try {
+      const generation = generateWithAI(fullInput);
+      const stored = generation.then(output => storeLevel(output, { source: 'ai', seed, input: fullInput, parameters }));
+      // A failed generation is reported below; this only keeps the rejection from going unhandled.
+      stored.catch(() => undefined);
+      const timeoutMs = AI_GENERATION_TIMEOUT_MS * Math.ceil(countSegments(fullInput.levelLength) / MAX_PARALLEL_SEGMENTS);
+      const output = await withTimeout(generation, timeoutMs, `timed out after ${timeoutMs / 1000}s`);
+      const levelId = await stored;
+      return { ...output, source: 'ai', seed, input: fullInput, ...(levelId ? { levelId } : {}) };
+    } catch (error) {
+      console.error("AI level generation failed, falling back to a stored or procedural level:", error); // For server-side debugging
+      return await serveStoredOrOffline(`AI generation failed (${getErrorMessage(error)})`);
     }
-    return result;
   } catch (error) {
     console.error("Error in handleGenerateLevelAction:", error); // For server-side debugging
-    let errorMessage = "Failed to generate level due to an unexpected server error.";
-    if (error instanceof Error) {
-      errorMessage = error.message;
-    } else if (typeof error === 'string') {
-      errorMessage = error;
-    } else if (error && typeof error === 'object' && 'toString' in error) {
-      errorMessage = (error as {toString: () => string}).toString();
+    return { error: getErrorMessage(error) };
+  }
+}
+
+/**
+ * Generates one segment of an endless level. Segments are not stored, and one the AI
+ * cannot produce in time is generated offline instead; seeded segments are rebuilt
+ * exactly only by the offline generator.
+ */
+export async function handleGenerateSegmentAction(
+  input: SegmentRequest
+): Promise<GeneratedSegment | { error: string }> {
+  if (!Number.isInteger(input.seed) || !Number.isInteger(input.index) || input.index < 0) {
+    return { error: "Invalid segment request." };
+  }
+  const contract = getEndlessSegmentContract(input.seed, input.index);
+  // Derived from the level's seed, so theme and densities stay the same along the level.
+  const fullInput = deriveGenerationInput(input, createRandom(input.seed));
+  const base = { source: 'procedural' as const, seed: input.seed, input: fullInput, segment: input.index };
+  const generateOffline = (notice?: string): GeneratedSegment => ({
+    ...generateProceduralSegmentOutput(fullInput, contract, getSegmentSeed(input.seed, input.index)),
+    ...base,
+    notice,
+  });
+
+  try {
+    if (input.source === 'procedural') return generateOffline();
+    if (!isModelConfigured()) return generateOffline("No Gemini API key is configured, so the segment was generated offline.");
+    try {
+      const result = await withTimeout(generateLevelSegment(fullInput, contract), AI_GENERATION_TIMEOUT_MS, `timed out after ${AI_GENERATION_TIMEOUT_MS / 1000}s`);
+      return { ...toLevelOutput(result), ...base, source: 'ai' };
+    } catch (error) {
+      console.error("AI segment generation failed, generating it offline:", error); // For server-side debugging
+      return generateOffline(`AI generation failed (${getErrorMessage(error)}), so the segment was generated offline.`);
     }
-    return { error: errorMessage };
+  } catch (error) {
+    console.error("Error in handleGenerateSegmentAction:", error); // For server-side debugging
+    return { error: getErrorMessage(error) };
   }
 }
 
+// Adds a finished attempt to a stored level's play stats, which rank the levels served
+// when generation fails. Invalid reports are ignored.
+export async function recordLevelCompletionAction(completion: z.infer<typeof LevelCompletionSchema>): Promise<void> {
+  const parsed = LevelCompletionSchema.safeParse(completion);
+  if (!parsed.success) return;
+  const { levelId, ...stats } = parsed.data;
+  await recordLevelCompletion(levelId, stats);
+}
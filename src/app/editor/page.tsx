@@ -0,0 +1,16 @@
+import type { Metadata } from 'next';
+import LevelEditor from '@/components/editor/LevelEditor';
+
+export const metadata: Metadata = {
+  title: 'Level Editor | Shifting Pixel',
+};
+
+export default function EditorPage() {
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      <main className="flex-grow flex flex-col min-h-0">
+        <LevelEditor />
+      </main>
+    </div>
+  );
+}
@@ -1,29 +1,149 @@
 
 "use client";
 
-import { useState, useCallback, useEffect } from 'react';
-import type { GenerateLevelOutput, GenerateLevelInput } from '@/ai/flows/generate-level';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import type { LevelSource, ImportedLevel, GameMode } from '@/types';
 import GameScreen from '@/components/game/GameScreen';
-import { handleGenerateLevelAction } from '@/app/actions';
+import {
+  handleGenerateLevelAction,
+  handleGenerateSegmentAction,
+  recordLevelCompletionAction,
+  type LevelRequest,
+  type GeneratedLevel,
+  type SegmentRequest,
+  type GeneratedSegment,
+} from '@/app/actions';
 import { useToast } from "@/hooks/use-toast";
+import { generateProceduralLevelOutput, generateProceduralSegmentOutput } from '@/lib/game/procedural-generator';
+import { deriveGenerationInput } from '@/lib/game/generation-input';
+import { createRandom, randomSeed, formatSeed } from '@/lib/game/random';
+import { formatLevelIssues, type LevelParseResult } from '@/lib/game/level-schema';
+import { decodeLevelCode, parseLevelFile, readLevelCodeFromHash } from '@/lib/game/level-share';
+import { loadSavedRun, saveRun, updateSavedRun, loadSettings, saveSettings, DEFAULT_SETTINGS, type SavedRun, type RunStats } from '@/lib/game/save-game';
+import type { LevelResult } from '@/lib/game/scoring';
+import { createPrefetchQueue, fillPrefetchQueue, takePrefetched, isPrefetchReady, PREFETCH_DEPTH, type PrefetchPlan } from '@/lib/game/level-prefetch';
+import { DIFFICULTY_PRESETS, getNextDifficultyRating } from '@/lib/game/difficulty';
+import { getDifficultyAdjustment, getPlayerPerformance, type DifficultyAdjustment, type PlayerPerformance } from '@/lib/game/adaptive-difficulty';
+import { getEndlessSegmentContract, getSegmentSeed } from '@/lib/game/level-segments';
+import { getEndlessSegmentRating } from '@/lib/game/endless-run';
 
-const INITIAL_DIFFICULTY: GenerateLevelInput['difficulty'] = 'medium';
+const INITIAL_DIFFICULTY_RATING = DIFFICULTY_PRESETS.medium;
+const INITIAL_LEVEL_SOURCE: LevelSource = 'ai';
+
+// Calls the server action, generating the level in the browser when the server cannot be reached (e.g. offline PWA).
+async function requestLevel(request: LevelRequest): Promise<GeneratedLevel | { error: string }> {
+  try {
+    return await handleGenerateLevelAction(request);
+  } catch (error) {
+    const seed = request.seed ?? randomSeed();
+    const fullInput = deriveGenerationInput(request, createRandom(seed));
+    return {
+      ...generateProceduralLevelOutput(fullInput, seed),
+      source: 'procedural',
+      seed,
+      input: fullInput,
+      notice: "The server could not be reached, so the level was generated offline.",
+    };
+  }
+}
+
+// Calls the segment action, generating the segment in the browser when the server cannot provide it.
+// Fails only when the offline generator cannot build the segment either.
+async function requestSegment(request: SegmentRequest): Promise<GeneratedSegment | { error: string }> {
+  try {
+    const result = await handleGenerateSegmentAction(request);
+    if (!('error' in result)) return result;
+  } catch (error) {
+    // Generated offline below.
+  }
+  try {
+    const fullInput = deriveGenerationInput(request, createRandom(request.seed));
+    const contract = getEndlessSegmentContract(request.seed, request.index);
+    return {
+      ...generateProceduralSegmentOutput(fullInput, contract, getSegmentSeed(request.seed, request.index)),
+      source: 'procedural',
+      seed: request.seed,
+      input: fullInput,
+      segment: request.index,
+      notice: "The server could not provide the segment, so it was generated offline.",
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
 
 export default function HomePage() {
-  const [generatedLevel, setGeneratedLevel] = useState<GenerateLevelOutput | null>(null);
+  const [generatedLevel, setGeneratedLevel] = useState<GeneratedLevel | ImportedLevel | null>(null);
   const [isLoadingLevel, setIsLoadingLevel] = useState<boolean>(false);
   const [gameStarted, setGameStarted] = useState<boolean>(false);
   const { toast } = useToast();
   const [levelCount, setLevelCount] = useState(0); // 0 means no level loaded / start screen / manual generation reset
-  const [currentDifficulty, setCurrentDifficulty] = useState<GenerateLevelInput['difficulty']>(INITIAL_DIFFICULTY);
+  const [currentDifficultyRating, setCurrentDifficultyRating] = useState(INITIAL_DIFFICULTY_RATING);
+  const [levelSource, setLevelSource] = useState<LevelSource>(INITIAL_LEVEL_SOURCE);
+  // The run found in storage, offered as "Continue" on the start screen.
+  const [savedRun, setSavedRun] = useState<SavedRun | null>(null);
+  // Deaths and level time to restore when continuing a saved run.
+  const [resumeStats, setResumeStats] = useState<RunStats | null>(null);
+  // Total score of the levels completed in this run.
+  const [runScore, setRunScore] = useState(0);
+  // The finished level's result, added to runScore when the player continues; the next
+  // level's difficulty adapts to it.
+  const [completedResult, setCompletedResult] = useState<LevelResult | null>(null);
+  const [adaptiveDifficulty, setAdaptiveDifficulty] = useState(DEFAULT_SETTINGS.adaptiveDifficulty);
+  // How the current level's rating was adapted to the level before it.
+  const [levelAdjustment, setLevelAdjustment] = useState<DifficultyAdjustment | null>(null);
+  // How the player did on the last level they finished, sent along with level requests.
+  const playerPerformanceRef = useRef<PlayerPerformance | null>(null);
+  // Upcoming levels, generated in the background while the current one is played.
+  const prefetchQueueRef = useRef(createPrefetchQueue<GeneratedLevel | { error: string }>());
+  // Bumped whenever a prefetched level settles, so isNextLevelReady is re-read.
+  const [, setPrefetchVersion] = useState(0);
+  // Set while an endless level is played: what each of its segments is generated from.
+  const [endlessLevel, setEndlessLevel] = useState<Omit<SegmentRequest, 'index'> | null>(null);
+  const [timeTrial, setTimeTrial] = useState(false);
+
+  useEffect(() => {
+    setSavedRun(loadSavedRun());
+    setAdaptiveDifficulty(loadSettings().adaptiveDifficulty);
+  }, []);
+
+  const handleAdaptiveDifficultyChange = useCallback((enabled: boolean) => {
+    setAdaptiveDifficulty(enabled);
+    saveSettings({ adaptiveDifficulty: enabled });
+  }, []);
 
-  const triggerLevelGeneration = useCallback(async (difficulty: GenerateLevelInput['difficulty'], isInitialStart: boolean = false) => {
+  // Performance is only passed on while difficulty adapts to it.
+  const getLevelRequest = useCallback((difficultyRating: number, source: LevelSource): LevelRequest => ({
+    difficultyRating,
+    source,
+    ...(adaptiveDifficulty && playerPerformanceRef.current ? { playerPerformance: playerPerformanceRef.current } : {}),
+  }), [adaptiveDifficulty]);
+
+  const applyGeneratedLevel = useCallback((result: GeneratedLevel, levelNumber: number, difficultyRating: number, isInitialStart: boolean) => {
+    setGeneratedLevel(result);
+    setLevelCount(levelNumber);
+    setCurrentDifficultyRating(difficultyRating);
+    toast({
+      title: `Level ${levelNumber} Generated!`,
+      description: result.notice ?? (isInitialStart ? "Let the adventure begin!" : `Difficulty: ${difficultyRating}/100. The adventure continues.`),
+    });
+  }, [toast]);
+
+  const triggerLevelGeneration = useCallback(async (
+    difficultyRating: number,
+    isInitialStart: boolean = false,
+    source: LevelSource = levelSource,
+    // A prefetched request to wait for instead of starting a new one.
+    pending?: Promise<GeneratedLevel | { error: string }>,
+  ) => {
     setIsLoadingLevel(true);
     const targetLevelNumber = isInitialStart ? 1 : levelCount + 1;
-    // console.log(`HomePage: Attempting to generate Level ${targetLevelNumber} with difficulty:`, difficulty);
+    // console.log(`HomePage: Attempting to generate Level ${targetLevelNumber} with difficulty:`, difficultyRating);
 
     try {
-      const result = await handleGenerateLevelAction({ difficulty });
+      const prefetched = pending ? await pending : null;
+      // A failed prefetch falls back to generating the level now.
+      const result = prefetched && !('error' in prefetched) ? prefetched : await requestLevel(getLevelRequest(difficultyRating, source));
       if ('error' in result) {
         // console.error(`HomePage: Generation failed for Level ${targetLevelNumber}:`, result.error);
         toast({
@@ -35,13 +155,7 @@ export default function HomePage() {
         if (isInitialStart) setGameStarted(false);
       } else {
         // console.log(`HomePage: Level ${targetLevelNumber} generated successfully.`);
-        setGeneratedLevel(result);
-        setLevelCount(targetLevelNumber);
-        setCurrentDifficulty(difficulty);
-        toast({
-          title: `Level ${targetLevelNumber} Generated!`,
-          description: isInitialStart ? "Let the adventure begin!" : `Difficulty: ${difficulty}. The adventure continues.`,
-        });
+        applyGeneratedLevel(result, targetLevelNumber, difficultyRating, isInitialStart);
       }
     } catch (error) {
       // console.error(`HomePage: Unexpected error generating Level ${targetLevelNumber}:`, error);
@@ -55,21 +169,110 @@ export default function HomePage() {
     } finally {
       setIsLoadingLevel(false);
     }
-  }, [toast, levelCount]); // Removed currentDifficulty as it's passed directly or derived
+  }, [toast, levelCount, levelSource, applyGeneratedLevel, getLevelRequest]); // Removed currentDifficultyRating as it's passed directly or derived
 
-  const handleStartGame = useCallback((difficulty: GenerateLevelInput['difficulty']) => {
+  // Starts an endless level with its first segment; GameScreen requests the rest as the player advances.
+  const startEndlessLevel = useCallback(async (difficultyRating: number, source: LevelSource) => {
+    const level = { difficultyRating, source, seed: randomSeed() };
+    setEndlessLevel(level);
+    setIsLoadingLevel(true);
+    const first = await requestSegment({ ...level, index: 0 });
+    if ('error' in first) {
+      toast({ variant: "destructive", title: "Endless Level Failed", description: first.error });
+      setEndlessLevel(null);
+      setIsLoadingLevel(false);
+      setGameStarted(false);
+      return;
+    }
+    setGeneratedLevel(first);
+    setLevelCount(1);
+    setCurrentDifficultyRating(difficultyRating);
+    toast({ title: "Endless Level Started!", description: first.notice ?? "Keep going as far as you can." });
+    setIsLoadingLevel(false);
+  }, [toast]);
+
+  const handleStartGame = useCallback((difficultyRating: number, source: LevelSource, mode: GameMode = 'levels') => {
+    setResumeStats(null);
+    setRunScore(0);
+    setLevelAdjustment(null);
+    playerPerformanceRef.current = null;
     setGameStarted(true);
     setLevelCount(0); // Will become 1 after successful generation in triggerLevelGeneration
-    triggerLevelGeneration(difficulty, true);
-  }, [triggerLevelGeneration]);
+    setLevelSource(source);
+    setTimeTrial(mode === 'time-trial');
+    if (mode === 'endless') {
+      startEndlessLevel(difficultyRating, source);
+      return;
+    }
+    setEndlessLevel(null);
+    triggerLevelGeneration(difficultyRating, true, source);
+  }, [triggerLevelGeneration, startEndlessLevel]);
+
+  const handleContinueGame = useCallback(() => {
+    const run = loadSavedRun();
+    if (!run) {
+      setSavedRun(null);
+      toast({ variant: "destructive", title: "No Saved Run", description: "The saved run could not be loaded." });
+      return;
+    }
+    setResumeStats({ deaths: run.deaths, elapsedSeconds: run.elapsedSeconds });
+    setEndlessLevel(null);
+    setTimeTrial(false);
+    setRunScore(run.score);
+    setLevelAdjustment(null);
+    setGeneratedLevel(run.level);
+    setLevelCount(run.levelNumber);
+    setCurrentDifficultyRating(run.difficultyRating);
+    setLevelSource(run.levelSource);
+    setGameStarted(true);
+  }, [toast]);
+
+  // Saves the run whenever a new level is in play. Progress on the level itself is
+  // reported separately by GameScreen through handleRunProgress. Only runs of levels are
+  // saved; endless runs and time trials start over.
+  useEffect(() => {
+    if (!gameStarted || isLoadingLevel || !generatedLevel || levelCount === 0 || endlessLevel || timeTrial) return;
+    const previous = loadSavedRun();
+    const isSameLevel = previous?.level.levelData === generatedLevel.levelData;
+    const isNewRun = levelCount === 1 && !isSameLevel;
+    saveRun({
+      level: generatedLevel,
+      levelNumber: levelCount,
+      difficultyRating: currentDifficultyRating,
+      levelSource,
+      deaths: isNewRun ? 0 : previous?.deaths ?? 0,
+      elapsedSeconds: isSameLevel ? previous.elapsedSeconds : 0,
+      score: runScore,
+    });
+  }, [gameStarted, isLoadingLevel, generatedLevel, levelCount, currentDifficultyRating, levelSource, runScore, endlessLevel, timeTrial]);
+
+  const handleRunProgress = useCallback((stats: RunStats) => {
+    if (!endlessLevel && !timeTrial) updateSavedRun(stats);
+  }, [endlessLevel, timeTrial]);
 
-  const processManualLevelGeneration = useCallback(async (formData: Pick<GenerateLevelInput, 'difficulty'>) => {
-    // console.log(`HomePage: processManualLevelGeneration called with difficulty:`, formData.difficulty);
+  // Each segment of an endless level is generated a little harder than the one before.
+  const requestEndlessSegment = useMemo(
+    () => (endlessLevel
+      ? (index: number) => requestSegment({
+        ...endlessLevel,
+        difficultyRating: getEndlessSegmentRating(endlessLevel.difficultyRating, index),
+        index,
+      })
+      : undefined),
+    [endlessLevel],
+  );
+
+  const handleRestartEndless = useCallback(() => {
+    if (endlessLevel) handleStartGame(endlessLevel.difficultyRating, endlessLevel.source ?? levelSource, 'endless');
+  }, [endlessLevel, levelSource, handleStartGame]);
+
+  const processManualLevelGeneration = useCallback(async (formData: LevelRequest) => {
+    // console.log(`HomePage: processManualLevelGeneration called with difficulty:`, formData.difficultyRating);
     setIsLoadingLevel(true);
     setLevelCount(0); // Indicate a reset/manual generation for GameScreen's loading message
 
     try {
-      const result = await handleGenerateLevelAction(formData);
+      const result = await requestLevel(formData);
       if ('error' in result) {
         // console.error("HomePage: Manual generation failed:", result.error);
         toast({
@@ -82,10 +285,15 @@ export default function HomePage() {
         // console.log("HomePage: Manual level generated successfully.");
         setGeneratedLevel(result);
         setLevelCount(1); // Set to Level 1 after manual generation
-        setCurrentDifficulty(formData.difficulty);
+        setEndlessLevel(null);
+        setRunScore(0);
+        setCompletedResult(null);
+        setLevelAdjustment(null);
+        setCurrentDifficultyRating(result.input.difficultyRating);
+        if (formData.source) setLevelSource(formData.source);
         toast({
           title: "Level 1 Generated Manually!",
-          description: `Difficulty: ${formData.difficulty}. The new adventure begins.`,
+          description: result.notice ?? `Difficulty ${result.input.difficultyRating}/100, seed ${formatSeed(result.seed)}. The new adventure begins.`,
         });
       }
     } catch (error) {
@@ -101,27 +309,110 @@ export default function HomePage() {
     }
   }, [toast]);
 
+  const loadImportedLevel = useCallback(async (pending: Promise<LevelParseResult>, source: ImportedLevel['source']) => {
+    const hadLevel = generatedLevel !== null;
+    setGameStarted(true);
+    setIsLoadingLevel(true);
+    setLevelCount(0); // Indicate a reset for GameScreen's level timer, as with manual generation
+
+    const result = await pending.catch((error): LevelParseResult => ({
+      success: false,
+      issues: [{ path: '', severity: 'error', message: error instanceof Error ? error.message : String(error) }],
+    }));
+    if (result.success) {
+      setGeneratedLevel({ levelData: JSON.stringify(result.level), source });
+      setLevelCount(1);
+      setEndlessLevel(null);
+      setRunScore(0);
+      setCompletedResult(null);
+      setLevelAdjustment(null);
+      const repaired = result.issues.length;
+      toast({
+        title: source === 'link' ? "Shared Level Loaded!" : "Level Imported!",
+        description: repaired > 0 ? `${repaired} problem${repaired === 1 ? ' was' : 's were'} repaired while loading.` : "Good luck!",
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: source === 'link' ? "Could Not Open Shared Level" : "Import Failed",
+        description: formatLevelIssues(result.issues.filter(issue => issue.severity === 'error')),
+      });
+      // Keep playing the current level, if there is one.
+      if (hadLevel) setLevelCount(1);
+      else setGameStarted(false);
+    }
+    setIsLoadingLevel(false);
+  }, [toast, generatedLevel]);
+
+  const handleLevelFileSelected = useCallback(async (file: File) => {
+    await loadImportedLevel(file.text().then(parseLevelFile), 'file');
+  }, [loadImportedLevel]);
+
+  // Opens a level shared via a link, then drops the fragment so reloads and later levels are not affected by it.
+  useEffect(() => {
+    const code = readLevelCodeFromHash(window.location.hash);
+    if (!code) return;
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    loadImportedLevel(decodeLevelCode(code), 'link');
+  }, [loadImportedLevel]);
+
+  // Once a level is finished, the next one's rating adapts to how it went.
+  const nextDifficulty = useMemo(
+    () => (adaptiveDifficulty && completedResult ? getDifficultyAdjustment(currentDifficultyRating, completedResult) : null),
+    [adaptiveDifficulty, completedResult, currentDifficultyRating],
+  );
+
+  // The level that follows the one being played.
+  const nextLevelPlan = useMemo((): PrefetchPlan => ({
+    levelNumber: levelCount + 1,
+    difficultyRating: nextDifficulty?.rating ?? getNextDifficultyRating(currentDifficultyRating),
+    source: levelSource,
+  }), [levelCount, currentDifficultyRating, levelSource, nextDifficulty]);
+
+  // As soon as a level starts, request the next few in the background. With adaptive
+  // difficulty the next level's rating and request depend on how this one goes, so only
+  // the next level is requested, once this one is finished, with its telemetry.
+  useEffect(() => {
+    if (!gameStarted || isLoadingLevel || !generatedLevel || levelCount === 0 || endlessLevel) return;
+    if (adaptiveDifficulty && !completedResult) return;
+    fillPrefetchQueue(
+      prefetchQueueRef.current,
+      nextLevelPlan,
+      ({ difficultyRating, source }) => requestLevel(getLevelRequest(difficultyRating, source)),
+      () => setPrefetchVersion(version => version + 1),
+      adaptiveDifficulty ? 1 : PREFETCH_DEPTH,
+    );
+  }, [gameStarted, isLoadingLevel, generatedLevel, levelCount, nextLevelPlan, getLevelRequest, endlessLevel, adaptiveDifficulty, completedResult]);
+
+  const isNextLevelReady = isPrefetchReady(prefetchQueueRef.current, nextLevelPlan);
+
+  const handleLevelComplete = useCallback((result: LevelResult) => {
+    setCompletedResult(result);
+    playerPerformanceRef.current = getPlayerPerformance(result);
+    // Play stats help the server pick good stored levels; losing one does not matter.
+    if (generatedLevel && 'levelId' in generatedLevel && generatedLevel.levelId) {
+      recordLevelCompletionAction({
+        levelId: generatedLevel.levelId,
+        deaths: result.deaths,
+        elapsedSeconds: result.elapsedSeconds,
+      }).catch(() => undefined);
+    }
+  }, [generatedLevel]);
+
+  // Swaps in the prefetched level when it is ready, waits for it while it is still
+  // generating, and generates the level on demand when there is none or it failed.
   const handleRequestNewLevel = useCallback(() => {
-    // console.log(`HomePage: handleRequestNewLevel called. Current levelCount: ${levelCount}. Current difficulty: ${currentDifficulty}.`);
-    
-    let nextDifficulty: GenerateLevelInput['difficulty'];
-    switch (currentDifficulty) {
-      case 'easy':
-        nextDifficulty = 'medium';
-        break;
-      case 'medium':
-        nextDifficulty = 'hard';
-        break;
-      case 'hard':
-        nextDifficulty = 'hard'; // Stays hard
-        break;
-      default:
-        nextDifficulty = 'medium'; // Fallback
+    if (completedResult) setRunScore(score => score + completedResult.score.total);
+    setCompletedResult(null);
+    setLevelAdjustment(nextDifficulty);
+
+    const entry = takePrefetched(prefetchQueueRef.current, nextLevelPlan);
+    if (entry?.outcome && !('error' in entry.outcome)) {
+      applyGeneratedLevel(entry.outcome, nextLevelPlan.levelNumber, nextLevelPlan.difficultyRating, false);
+      return;
     }
-    
-    // console.log(`HomePage: Requesting Level ${levelCount + 1} with next difficulty: ${nextDifficulty}`);
-    triggerLevelGeneration(nextDifficulty, false);
-  }, [triggerLevelGeneration, levelCount, currentDifficulty]);
+    triggerLevelGeneration(nextLevelPlan.difficultyRating, false, nextLevelPlan.source, entry && !entry.outcome ? entry.request : undefined);
+  }, [triggerLevelGeneration, applyGeneratedLevel, nextLevelPlan, completedResult, nextDifficulty]);
 
 
   useEffect(() => {
@@ -129,7 +420,15 @@ export default function HomePage() {
       setIsLoadingLevel(false); // Ensure loading is false if game hasn't started
       setGeneratedLevel(null); // Clear any existing level data
       setLevelCount(0); // Reset level count
-      setCurrentDifficulty(INITIAL_DIFFICULTY); // Reset to initial difficulty
+      setCurrentDifficultyRating(INITIAL_DIFFICULTY_RATING); // Reset to initial difficulty
+      setLevelSource(INITIAL_LEVEL_SOURCE);
+      setRunScore(0);
+      setCompletedResult(null);
+      setLevelAdjustment(null);
+      setEndlessLevel(null);
+      setTimeTrial(false);
+      playerPerformanceRef.current = null;
+      prefetchQueueRef.current = createPrefetchQueue();
     }
   }, [gameStarted]);
 
@@ -138,13 +437,30 @@ export default function HomePage() {
       <main className="flex-grow flex flex-col min-h-0"> {/* Ensure main can grow and shrink */}
             <GameScreen
               levelOutput={generatedLevel}
+              onLevelComplete={handleLevelComplete}
               onRequestNewLevel={handleRequestNewLevel}
+              isNextLevelReady={isNextLevelReady}
               levelId={levelCount}
               isLoading={isLoadingLevel}
               onManualGenerateRequested={processManualLevelGeneration}
-              defaultDifficulty={currentDifficulty}
+              defaultDifficultyRating={currentDifficultyRating}
+              defaultSource={levelSource}
               gameStarted={gameStarted}
               onStartGame={handleStartGame}
+              onLevelFileSelected={handleLevelFileSelected}
+              savedRun={savedRun}
+              onContinueGame={handleContinueGame}
+              resumeStats={resumeStats}
+              onRunProgress={handleRunProgress}
+              runScore={runScore}
+              adaptiveDifficulty={adaptiveDifficulty}
+              onAdaptiveDifficultyChange={handleAdaptiveDifficultyChange}
+              levelAdjustment={levelAdjustment}
+              nextDifficulty={nextDifficulty}
+              requestSegment={requestEndlessSegment}
+              onRestartEndless={handleRestartEndless}
+              onQuitToMenu={() => setGameStarted(false)}
+              timeTrial={timeTrial}
             />
       </main>
     </div>
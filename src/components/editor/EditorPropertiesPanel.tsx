@@ -0,0 +1,109 @@
+"use client";
+
+import type { FC } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PLATFORM_TYPES, OBSTACLE_TYPES, COLLECTIBLE_TYPES } from '@/lib/game/level-schema';
+import type { EditorSelection, EditorPlatform, EditorObstacle, EditorCollectible, EditorEntity } from '@/lib/game/level-editor';
+import { Trash2 } from 'lucide-react';
+
+interface EditorPropertiesPanelProps {
+  selection: EditorSelection;
+  entity: EditorEntity;
+  onChange: (patch: Partial<EditorPlatform> | Partial<EditorObstacle> | Partial<EditorCollectible>) => void;
+  onDelete: () => void;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  standard: 'Standard',
+  mobile: 'Mobile',
+  vertical_mobile: 'Vertical Mobile',
+  timed: 'Timed',
+  breakable: 'Breakable',
+  spikes: 'Spikes',
+  enemy: 'Enemy',
+  coin: 'Coin',
+  gem: 'Gem',
+};
+
+const KIND_TITLES: Record<EditorSelection['kind'], string> = {
+  platform: 'Platform',
+  obstacle: 'Obstacle',
+  collectible: 'Collectible',
+};
+
+const KIND_TYPES: Record<EditorSelection['kind'], readonly string[]> = {
+  platform: PLATFORM_TYPES,
+  obstacle: OBSTACLE_TYPES,
+  collectible: COLLECTIBLE_TYPES,
+};
+
+const NumberField: FC<{ id: string; label: string; value: number; onChange: (value: number) => void }> = ({ id, label, value, onChange }) => (
+  <div className="space-y-1">
+    <Label htmlFor={id} className="text-xs text-foreground/80">{label}</Label>
+    <Input
+      id={id}
+      type="number"
+      value={value}
+      onChange={(event) => {
+        const parsed = Number(event.target.value);
+        if (event.target.value.trim() !== '' && Number.isFinite(parsed)) onChange(parsed);
+      }}
+      className="bg-input border-border h-8 text-xs"
+    />
+  </div>
+);
+
+const EditorPropertiesPanel: FC<EditorPropertiesPanelProps> = ({ selection, entity, onChange, onDelete }) => {
+  const types = KIND_TYPES[selection.kind];
+  const idPrefix = `${selection.kind}-${selection.index}`;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-primary uppercase text-sm tracking-wider">
+        {KIND_TITLES[selection.kind]} {selection.index + 1}
+      </p>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-type`} className="text-xs text-foreground/80">Type</Label>
+        <Select value={entity.type} onValueChange={(type) => onChange({ type } as Partial<EditorPlatform> | Partial<EditorObstacle> | Partial<EditorCollectible>)}>
+          <SelectTrigger id={`${idPrefix}-type`} className="bg-input border-border h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-popover border-border">
+            {types.map(type => (
+              <SelectItem key={type} value={type}>{TYPE_LABELS[type] ?? type}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField id={`${idPrefix}-x`} label="X" value={entity.x} onChange={x => onChange({ x })} />
+        <NumberField id={`${idPrefix}-y`} label="Y" value={entity.y} onChange={y => onChange({ y })} />
+        {'width' in entity && (
+          <NumberField id={`${idPrefix}-width`} label="Width" value={entity.width} onChange={width => onChange({ width })} />
+        )}
+        {'height' in entity && (
+          <NumberField id={`${idPrefix}-height`} label="Height" value={entity.height} onChange={height => onChange({ height })} />
+        )}
+      </div>
+      {selection.kind === 'platform' && entity.type === 'standard' && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={`${idPrefix}-checkpoint`}
+            checked={!!(entity as EditorPlatform).checkpoint}
+            onCheckedChange={(checked) => onChange({ checkpoint: checked === true })}
+          />
+          <Label htmlFor={`${idPrefix}-checkpoint`} className="text-xs text-foreground/80">Checkpoint</Label>
+        </div>
+      )}
+      <Button variant="destructive" size="sm" className="w-full h-8 text-xs" onClick={onDelete}>
+        <Trash2 className="mr-1 h-4 w-4" /> Delete
+      </Button>
+    </div>
+  );
+};
+
+export default EditorPropertiesPanel;
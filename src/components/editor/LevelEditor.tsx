@@ -0,0 +1,610 @@
+"use client";
+
+import type { FC, ChangeEvent, PointerEvent as ReactPointerEvent } from 'react';
+import { useState, useRef, useMemo, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type { ImportedLevel } from '@/types';
+import GameScreen from '@/components/game/GameScreen';
+import EditorPropertiesPanel from '@/components/editor/EditorPropertiesPanel';
+import { Button } from '@/components/ui/button';
+import { formatLevelIssues, PLATFORM_TYPES, OBSTACLE_TYPES, COLLECTIBLE_TYPES, MIN_LEVEL_PLATFORMS, type Level } from '@/lib/game/level-schema';
+import {
+  createBlankLevel,
+  createHistory,
+  pushHistory,
+  undo,
+  redo,
+  addEntity,
+  updateEntity,
+  removeEntity,
+  getEntity,
+  getLevelBounds,
+  setMarker,
+  clearMarker,
+  snapToGrid,
+  GRID_SIZE,
+  type EditorSelection,
+  type EditorPlatform,
+  type EditorObstacle,
+  type EditorCollectible,
+  type EditorEntity,
+  type PlatformType,
+  type ObstacleType,
+  type CollectibleType,
+  type MarkerKind,
+} from '@/lib/game/level-editor';
+import { analyzeSolvability, describeFailingGap } from '@/lib/game/solvability';
+import { getMobileMoveRange } from '@/lib/game/engine';
+import { decodeLevelCode, parseLevelFile, readLevelCodeFromHash, serializeLevelFile, createShareUrl, LEVEL_FILE_EXTENSION } from '@/lib/game/level-share';
+import { PLATFORM_COLORS, OBSTACLE_COLORS, COLLECTIBLE_COLORS, CHECKPOINT_POLE_COLOR, CHECKPOINT_FLAG_COLOR, GOAL_POLE_COLOR, GOAL_FLAG_COLORS, PLAYER_COLOR, toCssColor } from '@/lib/game/palette';
+import { DEFAULT_PLATFORM_HEIGHT, DEFAULT_PLATFORM_MOVE_RANGE, PLAYER_WIDTH, PLAYER_HEIGHT, GOAL_WIDTH, GOAL_HEIGHT, COLLECTIBLE_SIZE } from '@/lib/game/constants';
+import { DIFFICULTY_PRESETS } from '@/lib/game/difficulty';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Undo2, Redo2, FilePlus, Upload, Download, Link2, Play, ZoomIn, ZoomOut, MousePointer2, X } from 'lucide-react';
+
+type Tool =
+  | { kind: 'select' }
+  | { kind: 'platform'; type: PlatformType }
+  | { kind: 'obstacle'; type: ObstacleType }
+  | { kind: 'collectible'; type: CollectibleType }
+  | { kind: 'marker'; marker: MarkerKind };
+
+interface DragState {
+  selection: EditorSelection;
+  mode: 'move' | 'resize';
+  startPointer: { x: number; y: number };
+  startEntity: EditorEntity;
+}
+
+const TOOL_LABELS: Record<PlatformType | ObstacleType | CollectibleType, string> = {
+  standard: 'Standard',
+  mobile: 'Mobile',
+  vertical_mobile: 'Vertical',
+  timed: 'Timed',
+  breakable: 'Breakable',
+  spikes: 'Spikes',
+  enemy: 'Enemy',
+  coin: 'Coin',
+  gem: 'Gem',
+};
+
+// Empty space kept around the level so there is room to build outwards.
+const CANVAS_PADDING = 160;
+const MIN_CANVAS_WIDTH = 400;
+const MIN_CANVAS_HEIGHT = 300;
+const ZOOM_LEVELS = [1, 1.5, 2, 3, 4];
+const DEFAULT_ZOOM_INDEX = 2;
+const RESIZE_HANDLE_SIZE = 4;
+const SELECTION_COLOR = '#FFFFFF';
+
+const MARKER_LABELS: Record<MarkerKind, string> = {
+  startPoint: 'Start',
+  endPoint: 'Goal',
+};
+
+const isSameTool = (a: Tool, b: Tool) => {
+  if (a.kind !== b.kind) return false;
+  if (a.kind === 'select') return true;
+  if (a.kind === 'marker') return a.marker === (b as typeof a).marker;
+  return a.type === (b as typeof a).type;
+};
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+const LevelEditor: FC = () => {
+  const [history, setHistory] = useState(() => createHistory(createBlankLevel()));
+  // The level while a drag is in progress; committed to the history on release.
+  const [draft, setDraft] = useState<Level | null>(null);
+  const [selection, setSelection] = useState<EditorSelection | null>(null);
+  const [tool, setTool] = useState<Tool>({ kind: 'select' });
+  const [zoomIndex, setZoomIndex] = useState(DEFAULT_ZOOM_INDEX);
+  const [isPlaytesting, setIsPlaytesting] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const level = draft ?? history.present;
+  const zoom = ZOOM_LEVELS[zoomIndex];
+  const selectedEntity = selection ? getEntity(level, selection) : undefined;
+  const isPlayable = level.platforms.length >= MIN_LEVEL_PLATFORMS;
+
+  const report = useMemo(() => (isPlayable ? analyzeSolvability(level) : null), [level, isPlayable]);
+
+  // Sized from the committed level so the canvas does not shift under the pointer mid-drag.
+  const viewBox = useMemo(() => {
+    const bounds = getLevelBounds(history.present);
+    const x = snapToGrid(bounds.minX - CANVAS_PADDING);
+    const y = snapToGrid(bounds.minY - CANVAS_PADDING);
+    return {
+      x,
+      y,
+      width: Math.max(snapToGrid(bounds.maxX + CANVAS_PADDING) - x, MIN_CANVAS_WIDTH),
+      height: Math.max(snapToGrid(bounds.maxY + CANVAS_PADDING) - y, MIN_CANVAS_HEIGHT),
+    };
+  }, [history.present]);
+
+  const commit = useCallback((next: Level) => setHistory(current => pushHistory(current, next)), []);
+
+  const loadLevel = useCallback((next: Level) => {
+    setHistory(createHistory(next));
+    setSelection(null);
+    setDraft(null);
+  }, []);
+
+  // Levels opened from the game arrive as a share code in the fragment.
+  useEffect(() => {
+    const code = readLevelCodeFromHash(window.location.hash);
+    if (!code) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    decodeLevelCode(code).then(result => {
+      if (result.success) {
+        loadLevel(result.level);
+      } else {
+        toast({ variant: "destructive", title: "Could Not Open Level", description: formatLevelIssues(result.issues) });
+      }
+    });
+  }, [loadLevel, toast]);
+
+  const handleUndo = useCallback(() => {
+    setHistory(undo);
+    setSelection(null);
+  }, []);
+
+  const handleRedo = useCallback(() => {
+    setHistory(redo);
+    setSelection(null);
+  }, []);
+
+  const handleDelete = useCallback(() => {
+    if (!selection) return;
+    commit(removeEntity(history.present, selection));
+    setSelection(null);
+  }, [selection, history.present, commit]);
+
+  useEffect(() => {
+    if (isPlaytesting) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+      const modifier = event.ctrlKey || event.metaKey;
+      if (modifier && event.code === 'KeyZ') {
+        event.preventDefault();
+        if (event.shiftKey) handleRedo(); else handleUndo();
+      } else if (modifier && event.code === 'KeyY') {
+        event.preventDefault();
+        handleRedo();
+      } else if (event.code === 'Delete' || event.code === 'Backspace') {
+        handleDelete();
+      } else if (event.code === 'Escape') {
+        setSelection(null);
+        setTool({ kind: 'select' });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isPlaytesting, handleUndo, handleRedo, handleDelete]);
+
+  const toWorld = (event: ReactPointerEvent): { x: number; y: number } => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return { x: 0, y: 0 };
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  const handleCanvasPointerDown = (event: ReactPointerEvent<SVGSVGElement>) => {
+    if (tool.kind === 'select') {
+      setSelection(null);
+      return;
+    }
+    const pointer = toWorld(event);
+    if (tool.kind === 'marker') {
+      commit(setMarker(history.present, tool.marker, pointer));
+      return;
+    }
+    const at = { x: snapToGrid(pointer.x), y: snapToGrid(pointer.y) };
+    const result = tool.kind === 'platform'
+      ? addEntity(history.present, { kind: 'platform', type: tool.type }, at)
+      : tool.kind === 'obstacle'
+        ? addEntity(history.present, { kind: 'obstacle', type: tool.type }, at)
+        : addEntity(history.present, { kind: 'collectible', type: tool.type }, at);
+    commit(result.level);
+    setSelection(result.selection);
+  };
+
+  const handleEntityPointerDown = (event: ReactPointerEvent, target: EditorSelection, mode: DragState['mode']) => {
+    event.stopPropagation();
+    const entity = getEntity(history.present, target);
+    if (!entity) return;
+    setSelection(target);
+    dragRef.current = { selection: target, mode, startPointer: toWorld(event), startEntity: entity };
+    svgRef.current?.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const pointer = toWorld(event);
+    const dx = pointer.x - drag.startPointer.x;
+    const dy = pointer.y - drag.startPointer.y;
+    const start = drag.startEntity;
+
+    if (drag.mode === 'move') {
+      setDraft(updateEntity(history.present, drag.selection, { x: snapToGrid(start.x + dx), y: snapToGrid(start.y + dy) }));
+    } else if ('width' in start) {
+      const patch: Partial<EditorObstacle> = { width: snapToGrid(start.x + start.width + dx) - start.x };
+      if ('height' in start) patch.height = snapToGrid(start.y + start.height + dy) - start.y;
+      setDraft(updateEntity(history.present, drag.selection, patch));
+    }
+  };
+
+  const handlePointerUp = (event: ReactPointerEvent<SVGSVGElement>) => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    if (svgRef.current?.hasPointerCapture(event.pointerId)) svgRef.current.releasePointerCapture(event.pointerId);
+    if (draft) commit(draft);
+    setDraft(null);
+  };
+
+  const handleNewLevel = () => {
+    loadLevel(createBlankLevel());
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const result = parseLevelFile(await file.text());
+    if (result.success) {
+      loadLevel(result.level);
+      toast({ title: "Level Imported", description: `${result.level.platforms.length} platforms loaded into the editor.` });
+    } else {
+      toast({ variant: "destructive", title: "Import Failed", description: formatLevelIssues(result.issues) });
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeLevelFile(history.present)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `shifting-pixel-custom${LEVEL_FILE_EXTENSION}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(await createShareUrl(history.present, window.location.origin));
+      toast({ title: "Share Link Copied", description: "Anyone with the link can play this level." });
+    } catch (error) {
+      toast({ variant: "destructive", title: "Copy Failed", description: "The share link could not be copied." });
+    }
+  };
+
+  const playtestLevel = useMemo<ImportedLevel>(
+    () => ({ levelData: JSON.stringify(history.present), source: 'editor' }),
+    [history.present],
+  );
+
+  if (isPlaytesting) {
+    return (
+      <GameScreen
+        levelOutput={playtestLevel}
+        levelId={1}
+        isLoading={false}
+        gameStarted
+        defaultDifficultyRating={DIFFICULTY_PRESETS.medium}
+        defaultSource="procedural"
+        onStartGame={() => setIsPlaytesting(true)}
+        onExit={() => setIsPlaytesting(false)}
+        exitLabel="Back to Editor"
+      />
+    );
+  }
+
+  const renderPlatform = (platform: EditorPlatform, index: number) => {
+    const isSelected = selection?.kind === 'platform' && selection.index === index;
+    const color = toCssColor(PLATFORM_COLORS[platform.type]);
+    const rangeX = platform.type === 'mobile' ? getMobileMoveRange(platform.width) : 0;
+    const rangeY = platform.type === 'vertical_mobile' ? DEFAULT_PLATFORM_MOVE_RANGE : 0;
+    const marker = report?.startPlatform === index ? 'S' : report?.goalPlatform === index ? 'G' : null;
+    const target: EditorSelection = { kind: 'platform', index };
+
+    return (
+      <g key={`platform-${index}`}>
+        {(rangeX > 0 || rangeY > 0) && (
+          <rect
+            x={platform.x - rangeX}
+            y={platform.y - rangeY}
+            width={platform.width + rangeX * 2}
+            height={DEFAULT_PLATFORM_HEIGHT + rangeY * 2}
+            fill="none"
+            stroke={color}
+            strokeOpacity={0.5}
+            strokeDasharray="3 3"
+            strokeWidth={0.5}
+            pointerEvents="none"
+          />
+        )}
+        <rect
+          x={platform.x}
+          y={platform.y}
+          width={platform.width}
+          height={DEFAULT_PLATFORM_HEIGHT}
+          fill={color}
+          fillOpacity={platform.type === 'timed' || platform.type === 'breakable' ? 0.75 : 1}
+          stroke={isSelected ? SELECTION_COLOR : 'none'}
+          strokeWidth={1}
+          className="cursor-move"
+          onPointerDown={(event) => handleEntityPointerDown(event, target, 'move')}
+        />
+        {isSelected && (
+          <rect
+            x={platform.x + platform.width - RESIZE_HANDLE_SIZE / 2}
+            y={platform.y}
+            width={RESIZE_HANDLE_SIZE}
+            height={DEFAULT_PLATFORM_HEIGHT}
+            fill={SELECTION_COLOR}
+            className="cursor-ew-resize"
+            onPointerDown={(event) => handleEntityPointerDown(event, target, 'resize')}
+          />
+        )}
+        {platform.checkpoint && (
+          <g pointerEvents="none">
+            <rect x={platform.x + 4} y={platform.y - 14} width={2} height={14} fill={toCssColor(CHECKPOINT_POLE_COLOR)} />
+            <polygon points={`${platform.x + 6},${platform.y - 14} ${platform.x + 14},${platform.y - 10} ${platform.x + 6},${platform.y - 6}`} fill={toCssColor(CHECKPOINT_FLAG_COLOR)} />
+          </g>
+        )}
+        {marker && (
+          <text x={platform.x + 2} y={platform.y - 3} fontSize={8} fill={SELECTION_COLOR} pointerEvents="none">{marker}</text>
+        )}
+      </g>
+    );
+  };
+
+  const renderObstacle = (obstacle: EditorObstacle, index: number) => {
+    const isSelected = selection?.kind === 'obstacle' && selection.index === index;
+    const color = toCssColor(OBSTACLE_COLORS[obstacle.type]);
+    const target: EditorSelection = { kind: 'obstacle', index };
+    const { x, y, width, height } = obstacle;
+    const spikeCount = Math.max(1, Math.round(width / Math.max(height, 1)));
+    const spikePoints = Array.from({ length: spikeCount }, (_, i) => {
+      const left = x + (i * width) / spikeCount;
+      return `${left},${y + height} ${left + width / spikeCount / 2},${y} ${left + width / spikeCount},${y + height}`;
+    }).join(' ');
+
+    return (
+      <g key={`obstacle-${index}`} className="cursor-move" onPointerDown={(event) => handleEntityPointerDown(event, target, 'move')}>
+        {obstacle.type === 'spikes' ? (
+          <>
+            <rect x={x} y={y} width={width} height={height} fill="transparent" />
+            <polygon points={spikePoints} fill={color} />
+          </>
+        ) : (
+          <rect x={x} y={y} width={width} height={height} fill={color} />
+        )}
+        {isSelected && (
+          <>
+            <rect x={x} y={y} width={width} height={height} fill="none" stroke={SELECTION_COLOR} strokeWidth={1} pointerEvents="none" />
+            <rect
+              x={x + width - RESIZE_HANDLE_SIZE / 2}
+              y={y + height - RESIZE_HANDLE_SIZE / 2}
+              width={RESIZE_HANDLE_SIZE}
+              height={RESIZE_HANDLE_SIZE}
+              fill={SELECTION_COLOR}
+              className="cursor-nwse-resize"
+              onPointerDown={(event) => handleEntityPointerDown(event, target, 'resize')}
+            />
+          </>
+        )}
+      </g>
+    );
+  };
+
+  const renderMarkers = () => (
+    <g pointerEvents="none">
+      {level.startPoint && (
+        <rect
+          x={level.startPoint.x - PLAYER_WIDTH / 2}
+          y={level.startPoint.y - PLAYER_HEIGHT}
+          width={PLAYER_WIDTH}
+          height={PLAYER_HEIGHT}
+          fill="none"
+          stroke={toCssColor(PLAYER_COLOR)}
+          strokeDasharray="2 1"
+          strokeWidth={1}
+        />
+      )}
+      {level.endPoint && (
+        <g transform={`translate(${level.endPoint.x - GOAL_WIDTH / 2} ${level.endPoint.y - GOAL_HEIGHT})`}>
+          <rect x={0} y={0} width={2} height={GOAL_HEIGHT} fill={toCssColor(GOAL_POLE_COLOR)} />
+          {[0, 1, 2, 3].map(cell => (
+            <rect
+              key={cell}
+              x={2 + (cell % 2) * (GOAL_WIDTH - 2) / 2}
+              y={Math.floor(cell / 2) * 4}
+              width={(GOAL_WIDTH - 2) / 2}
+              height={4}
+              fill={toCssColor(GOAL_FLAG_COLORS[(cell % 2 + Math.floor(cell / 2)) % 2])}
+            />
+          ))}
+        </g>
+      )}
+    </g>
+  );
+
+  const markerRow = (marker: MarkerKind) => {
+    const point = level[marker];
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <span>{MARKER_LABELS[marker]}: {point ? `${point.x}, ${point.y}` : 'automatic'}</span>
+        {point && (
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => commit(clearMarker(history.present, marker))} title={`Clear ${MARKER_LABELS[marker].toLowerCase()} point`}>
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const renderCollectible = (collectible: EditorCollectible, index: number) => {
+    const isSelected = selection?.kind === 'collectible' && selection.index === index;
+    const color = toCssColor(COLLECTIBLE_COLORS[collectible.type]);
+    const half = COLLECTIBLE_SIZE / 2;
+    const { x, y } = collectible;
+
+    return (
+      <g
+        key={`collectible-${index}`}
+        className="cursor-move"
+        onPointerDown={(event) => handleEntityPointerDown(event, { kind: 'collectible', index }, 'move')}
+      >
+        {collectible.type === 'gem' ? (
+          <polygon points={`${x + half},${y} ${x + COLLECTIBLE_SIZE},${y + half} ${x + half},${y + COLLECTIBLE_SIZE} ${x},${y + half}`} fill={color} />
+        ) : (
+          <circle cx={x + half} cy={y + half} r={half} fill={color} />
+        )}
+        {isSelected && (
+          <rect x={x} y={y} width={COLLECTIBLE_SIZE} height={COLLECTIBLE_SIZE} fill="none" stroke={SELECTION_COLOR} strokeWidth={1} pointerEvents="none" />
+        )}
+      </g>
+    );
+  };
+
+  const toolButton = (candidate: Tool, label: string, color?: number) => (
+    <Button
+      key={label}
+      variant={isSameTool(tool, candidate) ? 'default' : 'outline'}
+      size="sm"
+      className="h-8 text-xs justify-start"
+      onClick={() => setTool(candidate)}
+    >
+      {color !== undefined ? (
+        <span className="mr-2 inline-block h-3 w-3 shrink-0" style={{ backgroundColor: toCssColor(color) }} />
+      ) : (
+        <MousePointer2 className="mr-2 h-4 w-4" />
+      )}
+      {label}
+    </Button>
+  );
+
+  return (
+    <div className="h-full flex flex-col min-h-0">
+      <header className="flex flex-wrap items-center gap-2 p-3 border-b border-border bg-background/70">
+        <Button asChild variant="ghost" size="sm" className="h-8 text-xs">
+          <Link href="/"><ArrowLeft className="mr-1 h-4 w-4" /> Game</Link>
+        </Button>
+        <h1 className="text-primary uppercase text-sm tracking-wider mr-auto">Level Editor</h1>
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleUndo} disabled={history.past.length === 0} title="Undo (Ctrl+Z)">
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleRedo} disabled={history.future.length === 0} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => setZoomIndex(i => Math.max(i - 1, 0))} disabled={zoomIndex === 0} title="Zoom Out">
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => setZoomIndex(i => Math.min(i + 1, ZOOM_LEVELS.length - 1))} disabled={zoomIndex === ZOOM_LEVELS.length - 1} title="Zoom In">
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleNewLevel}>
+          <FilePlus className="mr-1 h-4 w-4" /> New
+        </Button>
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="mr-1 h-4 w-4" /> Import
+        </Button>
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleExport} disabled={!isPlayable}>
+          <Download className="mr-1 h-4 w-4" /> Export
+        </Button>
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleCopyShareLink} disabled={!isPlayable}>
+          <Link2 className="mr-1 h-4 w-4" /> Link
+        </Button>
+        <Button size="sm" className="h-8 text-xs bg-accent hover:bg-accent/90 text-accent-foreground" onClick={() => setIsPlaytesting(true)} disabled={!isPlayable}>
+          <Play className="mr-1 h-4 w-4" /> Play-Test
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`${LEVEL_FILE_EXTENSION},application/json`}
+          className="hidden"
+          onChange={handleImport}
+        />
+      </header>
+
+      <div className="flex-grow flex min-h-0">
+        <aside className="w-48 shrink-0 border-r border-border p-3 flex flex-col gap-2 overflow-y-auto">
+          <p className="text-foreground/80 text-xs uppercase">Tools</p>
+          {toolButton({ kind: 'select' }, 'Select')}
+          <p className="text-foreground/80 text-xs uppercase pt-2">Platforms</p>
+          {PLATFORM_TYPES.map(type => toolButton({ kind: 'platform', type }, TOOL_LABELS[type], PLATFORM_COLORS[type]))}
+          <p className="text-foreground/80 text-xs uppercase pt-2">Obstacles</p>
+          {OBSTACLE_TYPES.map(type => toolButton({ kind: 'obstacle', type }, TOOL_LABELS[type], OBSTACLE_COLORS[type]))}
+          <p className="text-foreground/80 text-xs uppercase pt-2">Collectibles</p>
+          {COLLECTIBLE_TYPES.map(type => toolButton({ kind: 'collectible', type }, TOOL_LABELS[type], COLLECTIBLE_COLORS[type]))}
+          <p className="text-foreground/80 text-xs uppercase pt-2">Markers</p>
+          {toolButton({ kind: 'marker', marker: 'startPoint' }, MARKER_LABELS.startPoint, PLAYER_COLOR)}
+          {toolButton({ kind: 'marker', marker: 'endPoint' }, MARKER_LABELS.endPoint, GOAL_POLE_COLOR)}
+        </aside>
+
+        <div className="flex-grow overflow-auto bg-black/50 min-w-0">
+          <svg
+            ref={svgRef}
+            viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
+            width={viewBox.width * zoom}
+            height={viewBox.height * zoom}
+            className={tool.kind === 'select' ? undefined : 'cursor-crosshair'}
+            onPointerDown={handleCanvasPointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            aria-label="Level editor canvas"
+          >
+            <defs>
+              <pattern id="editor-grid" width={GRID_SIZE} height={GRID_SIZE} patternUnits="userSpaceOnUse">
+                <path d={`M ${GRID_SIZE} 0 L 0 0 0 ${GRID_SIZE}`} fill="none" stroke="rgba(255,255,255,0.08)" strokeWidth={0.5} />
+              </pattern>
+            </defs>
+            <rect x={viewBox.x} y={viewBox.y} width={viewBox.width} height={viewBox.height} fill="url(#editor-grid)" />
+            {level.platforms.map(renderPlatform)}
+            {level.obstacles.map(renderObstacle)}
+            {(level.collectibles ?? []).map(renderCollectible)}
+            {renderMarkers()}
+          </svg>
+        </div>
+
+        <aside className="w-56 shrink-0 border-l border-border p-3 flex flex-col gap-4 overflow-y-auto text-xs">
+          {selection && selectedEntity ? (
+            <EditorPropertiesPanel
+              selection={selection}
+              entity={selectedEntity}
+              onChange={(patch) => commit(updateEntity(history.present, selection, patch))}
+              onDelete={handleDelete}
+            />
+          ) : (
+            <p className="text-foreground/60">
+              Pick a tool and click the grid to place it. Drag to move, drag the white handle to resize.
+            </p>
+          )}
+          <div className="space-y-1 border-t border-border pt-3">
+            <p className="text-primary uppercase text-sm tracking-wider">Level</p>
+            <p>{level.platforms.length} platforms, {level.obstacles.length} obstacles, {level.collectibles?.length ?? 0} collectibles</p>
+            {markerRow('startPoint')}
+            {markerRow('endPoint')}
+            {!isPlayable ? (
+              <p className="text-destructive">A level needs at least {MIN_LEVEL_PLATFORMS} platforms.</p>
+            ) : report?.solvable ? (
+              <p className="text-green-400">Solvable: the goal (G) can be reached from the start (S).</p>
+            ) : (
+              <p className="text-destructive">
+                Not solvable{report?.failingGap ? `: ${describeFailingGap(report.failingGap)}` : '.'}
+              </p>
+            )}
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
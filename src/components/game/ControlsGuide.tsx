@@ -1,6 +1,6 @@
 import type { FC } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { MoveRight, CornerLeftUp, CornerRightDown } from 'lucide-react'; // Removed Smartphone for now
+import { MoveRight, CornerLeftUp, CornerRightDown, RotateCcw } from 'lucide-react'; // Removed Smartphone for now
 
 const ControlsGuide: FC = () => {
   const controlItemClass = "flex items-center space-x-2 text-foreground/90 text-sm"; // Slightly larger text for readability
@@ -27,6 +27,11 @@ const ControlsGuide: FC = () => {
           <span>Crouch:</span>
           <span className={keyClass}>S</span> / <span className={keyClass}>↓</span>
         </div>
+        <div className={controlItemClass}>
+          <RotateCcw className="w-4 h-4 text-primary" />
+          <span>Restart (Time Trial):</span>
+          <span className={keyClass}>R</span>
+        </div>
         {/* Removed touch controls section for brevity to avoid scroll
         <div className="pt-2 border-t border-border mt-3">
           <div className={controlItemClass}>
@@ -0,0 +1,68 @@
+import type { FC } from 'react';
+import { Button } from '@/components/ui/button';
+import { StatRow, Comparison, formatDuration } from '@/components/game/LevelResults';
+import type { EndlessResult } from '@/lib/game/endless-run';
+import type { EndlessBest } from '@/lib/game/save-game';
+import { RotateCcw, Skull } from 'lucide-react';
+
+interface EndlessResultsProps {
+  result: EndlessResult;
+  // The best run before this one; null after the first run.
+  previousBest: EndlessBest | null;
+  onRunAgain: () => void;
+  onQuit?: () => void;
+}
+
+const EndlessResults: FC<EndlessResultsProps> = ({ result, previousBest, onRunAgain, onQuit }) => {
+  const { score } = result;
+
+  return (
+    <div className="absolute inset-0 bg-background/85 flex items-center justify-center z-20 p-4 overflow-y-auto">
+      <div className="w-full max-w-sm space-y-4 text-sm">
+        <div className="text-center">
+          <Skull className="w-10 h-10 mx-auto text-accent mb-2" />
+          <p className="text-2xl font-bold text-primary uppercase tracking-wider">Run Over</p>
+        </div>
+
+        <div>
+          <StatRow
+            label="Distance"
+            value={`${result.distance} m`}
+            comparison={
+              <Comparison
+                value={result.distance}
+                best={previousBest?.bestDistance}
+                higherIsBetter
+                formatValue={distance => `${distance} m`}
+                formatChange={delta => `+${delta} m`}
+                firstLabel="First run"
+              />
+            }
+          />
+          <StatRow label="Time" value={formatDuration(result.elapsedSeconds)} />
+          <StatRow label="Segments Cleared" value={result.segmentsCleared} />
+          <StatRow label="Difficulty Reached" value={result.difficultyRating} />
+          <StatRow
+            label="Score"
+            value={score.total}
+            comparison={<Comparison value={score.total} best={previousBest?.bestScore} higherIsBetter firstLabel="First run" />}
+          />
+          <p className="pt-1 text-xs text-foreground/60 text-right">
+            {score.distance} distance + {score.collectibles} collectibles
+          </p>
+        </div>
+
+        <div className="grid gap-2">
+          <Button className="bg-accent hover:bg-accent/90 text-accent-foreground" onClick={onRunAgain}>
+            <RotateCcw className="mr-2 h-4 w-4" /> Run Again
+          </Button>
+          {onQuit && (
+            <Button variant="secondary" onClick={onQuit}>Main Menu</Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EndlessResults;
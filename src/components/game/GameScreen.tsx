@@ -1,109 +1,124 @@
 
 "use client";
 
-import type { FC } from 'react';
+import type { FC, ChangeEvent } from 'react';
 import { useEffect, useRef, useMemo, useCallback, useState } from 'react';
 import * as PIXI from 'pixi.js';
-import type { GenerateLevelOutput, GenerateLevelInput } from '@/ai/flows/generate-level';
-import type { ParsedLevelData, Platform as PlatformData } from '@/types';
+import type { GenerateLevelInput } from '@/ai/flows/generate-level';
+import type { LevelSource, ImportedLevel, GameMode } from '@/types';
+import type { LevelRequest, GeneratedLevel, GeneratedSegment } from '@/app/actions';
+import { parseLevelData, formatLevelIssues } from '@/lib/game/level-schema';
+import { placeSegment } from '@/lib/game/level-segments';
+import { createSegmentStream, fillSegmentStream, takeNextSegment, type SegmentStream } from '@/lib/game/segment-stream';
+import { createWorld, extendWorld, removeLeadingEntities, step, inputFromKeys, getStandingPlatformNumber, type World, type EntityCounts } from '@/lib/game/engine';
+import { PLAYER_CROUCH_HEIGHT, LOGICAL_GAME_WIDTH, LOGICAL_GAME_HEIGHT, FIXED_STEP_MS } from '@/lib/game/constants';
+import { createFixedStepClock, consumeSteps, getInterpolationAlpha, lerp } from '@/lib/game/fixed-step';
+import { formatSeed } from '@/lib/game/random';
+import {
+  loadSettings,
+  saveSettings,
+  recordPersonalBest,
+  recordEndlessBest,
+  loadTimeTrialBest,
+  recordTimeTrialBest,
+  DEFAULT_SETTINGS,
+  type SavedRun,
+  type RunStats,
+  type PersonalBest,
+  type EndlessBest,
+  type TimeTrialBest,
+} from '@/lib/game/save-game';
+import { PLAYER_COLOR, THEME_BACKGROUND_COLORS, toCssColor } from '@/lib/game/palette';
+import { calculateLevelScore, getCollectedScore, type LevelResult, type DeathLocation } from '@/lib/game/scoring';
+import { RESTART_KEY, ticksToSeconds, formatTrialTime, formatTrialDelta, getLiveDelta, type Split, type TimeTrialRun } from '@/lib/game/time-trial';
+import { getEndlessSegmentRating, getEndlessDistance, calculateEndlessScore, type EndlessResult } from '@/lib/game/endless-run';
+import { createInputRecording, recordInput, createReplay, parseReplayFile, REPLAY_FILE_EXTENSION, MAX_REPLAY_TICKS, type Replay } from '@/lib/game/replay';
+import { serializeLevelFile, createShareUrl, encodeLevelCode, LEVEL_FILE_EXTENSION, LEVEL_FRAGMENT_KEY } from '@/lib/game/level-share';
+import { DIFFICULTY_PRESETS, getDifficultyBand } from '@/lib/game/difficulty';
+import { describeDifficultyAdjustment, type DifficultyAdjustment } from '@/lib/game/adaptive-difficulty';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogTrigger, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
-import { Loader2, TimerIcon, PauseIcon, PlayIcon, Gamepad2, SlidersHorizontal, Volume2, ListTree, Footprints, ArrowUp, ArrowDown, ArrowLeft, ArrowRight } from 'lucide-react';
+import { Loader2, TimerIcon, PauseIcon, PlayIcon, Gamepad2, SlidersHorizontal, Volume2, ListTree, Footprints, Hash, Copy, Download, Upload, Link2, PencilRuler, Clapperboard, Star, ArrowUp, ArrowDown, ArrowLeft, ArrowRight } from 'lucide-react';
 import LevelGeneratorForm from '@/components/game/LevelGeneratorForm';
 import ControlsGuide from '@/components/game/ControlsGuide';
+import LevelResults from '@/components/game/LevelResults';
+import EndlessResults from '@/components/game/EndlessResults';
+import ReplayViewer from '@/components/game/ReplayViewer';
+import { drawGoal, addEntitySprites, removeEntitySprites, syncEntitySprites, redrawCheckpoints, type EntitySprites } from '@/components/game/world-sprites';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
 
 
 interface GameScreenProps {
-  levelOutput: GenerateLevelOutput | null;
+  levelOutput: GeneratedLevel | ImportedLevel | null;
+  // Called with the level's result when the player reaches the goal; the results
+  // screen stays up until the player retries or continues.
+  onLevelComplete?: (result: LevelResult) => void;
+  // Continues from the results screen to the next level.
   onRequestNewLevel?: () => void;
+  // Whether the next level has finished generating in the background.
+  isNextLevelReady?: boolean;
   levelId?: number;
   isLoading: boolean;
-  onManualGenerateRequested: (formData: Pick<GenerateLevelInput, 'difficulty'>) => Promise<void>;
-  defaultDifficulty: GenerateLevelInput['difficulty'];
+  // Omitted by the editor's play-test, which hides level generation.
+  onManualGenerateRequested?: (formData: LevelRequest) => Promise<void>;
+  defaultDifficultyRating: number;
+  defaultSource: LevelSource;
   gameStarted: boolean;
-  onStartGame: (difficulty: GenerateLevelInput['difficulty']) => void;
+  onStartGame: (difficultyRating: number, source: LevelSource, mode: GameMode) => void;
+  onLevelFileSelected?: (file: File) => Promise<void>;
+  // Adds a button to the pause menu that leaves the game, e.g. back to the editor.
+  onExit?: () => void;
+  exitLabel?: string;
+  // A saved run to offer as "Continue" on the start screen.
+  savedRun?: SavedRun | null;
+  onContinueGame?: () => void;
+  // Set for endless levels: provides the segment with the given index, which continues
+  // from the end of the one before it. The level has no goal.
+  requestSegment?: (index: number) => Promise<GeneratedSegment | { error: string }>;
+  // Starts a new endless run after the player died in one.
+  onRestartEndless?: () => void;
+  onQuitToMenu?: () => void;
+  // Times levels in simulation ticks with checkpoint splits against the level's personal best.
+  timeTrial?: boolean;
+  // Deaths and level time to restore once the level is loaded.
+  resumeStats?: RunStats | null;
+  // Reported at most once per second of play, and on every death.
+  onRunProgress?: (stats: RunStats) => void;
+  // Score of the levels already completed in this run.
+  runScore?: number;
+  // Whether level difficulty adapts to the player; the setting is hidden when there is no handler.
+  adaptiveDifficulty?: boolean;
+  onAdaptiveDifficultyChange?: (enabled: boolean) => void;
+  // How the current level's rating was adapted to the level before it.
+  levelAdjustment?: DifficultyAdjustment | null;
+  // The next level's adapted rating, shown on the results screen.
+  nextDifficulty?: DifficultyAdjustment | null;
 }
 
-const parseLevelData = (levelDataString: string | undefined): ParsedLevelData | null => {
-  if (!levelDataString) return null;
-  try {
-    const trimmedData = levelDataString.trim();
-     if (!trimmedData) return null;
-    const data = JSON.parse(trimmedData);
-    if (!data.platforms || !Array.isArray(data.platforms)) data.platforms = [];
-    if (!data.obstacles || !Array.isArray(data.obstacles)) data.obstacles = []; // Ensure obstacles is always an array
-    return data as ParsedLevelData;
-  } catch (error) {
-    // console.error("Error parsing level data:", error, "Data string:", levelDataString);
-    return null;
-  }
-};
-
-const PLAYER_WIDTH = 8;
-const PLAYER_HEIGHT = 16;
-const PLAYER_CROUCH_HEIGHT = 8;
-const PLAYER_SPEED = 2;
-const JUMP_FORCE = 7;
-const GRAVITY = 0.3;
-const DEFAULT_PLATFORM_HEIGHT = 10;
-
-const PLATFORM_COLOR_STANDARD = 0x9400D3;
-const PLATFORM_COLOR_MOBILE = 0x0077FF;
-const PLATFORM_COLOR_VERTICAL_MOBILE = 0x00D377;
-const PLATFORM_COLOR_TIMED = 0xFF8C00;
-const PLATFORM_COLOR_BREAKABLE = 0x8B4513;
-
-const PLAYER_COLOR = 0xFFDE00;
-
-const DEFAULT_PLATFORM_MOVE_SPEED = 0.5;
-const DEFAULT_PLATFORM_MOVE_RANGE = 50;
-const TIMED_PLATFORM_VISIBLE_DURATION = 3 * 60;
-const TIMED_PLATFORM_HIDDEN_DURATION = 2 * 60;
-const BREAKABLE_PLATFORM_BREAK_DELAY = 0.5 * 60;
-const BREAKABLE_PLATFORM_RESPAWN_DURATION = 5 * 60;
+// How often, in ticks, the time-trial clock in the HUD is refreshed.
+const TRIAL_HUD_REFRESH_TICKS = 3;
 
 const CAMERA_LERP_FACTOR = 0.1;
 const CROUCH_CAMERA_VIEW_ADJUST_WORLD = 20;
 
-const LOGICAL_GAME_WIDTH = 400;
-const LOGICAL_GAME_HEIGHT = 300;
-
-
-function checkCollision(rect1: {x: number, y: number, width: number, height: number},
-                        rect2: {x: number, y: number, width: number, height: number}): boolean {
-    return rect1.x < rect2.x + rect2.width &&
-           rect1.x + rect1.width > rect2.x &&
-           rect1.y < rect2.y + rect2.height &&
-           rect1.y + rect1.height > rect2.y;
+// Counts of the entities an endless level segment added to the world, and where it ends.
+interface WorldSegment extends EntityCounts {
+  exitX: number;
 }
 
-interface PlatformObject {
-  sprite: PIXI.Graphics;
-  initialX: number;
-  initialY: number;
-  width: number;
-  height: number;
-  type: PlatformData['type'];
-  moveDirectionX?: number;
-  moveRangeX?: number;
-  currentSpeedX?: number;
-  moveDirectionY?: number;
-  moveRangeY?: number;
-  currentSpeedY?: number;
-  isVisible?: boolean;
-  timer?: number;
-  visibleDuration?: number;
-  hiddenDuration?: number;
-  isBroken?: boolean;
-  isBreaking?: boolean;
-  breakingTimer?: number;
-  respawnTimer?: number;
-}
+const playSound = (audio: HTMLAudioElement | null, volume: number) => {
+  if (!audio) return;
+  audio.volume = volume;
+  audio.currentTime = 0;
+  audio.play().catch(e => {});
+};
 
 const formatTime = (totalSeconds: number): string => {
   const minutes = Math.floor(totalSeconds / 60);
@@ -114,13 +129,32 @@ const formatTime = (totalSeconds: number): string => {
 
 const GameScreen: FC<GameScreenProps> = ({
   levelOutput,
+  onLevelComplete,
   onRequestNewLevel,
+  isNextLevelReady,
   levelId = 0,
   isLoading,
   onManualGenerateRequested,
-  defaultDifficulty,
+  defaultDifficultyRating,
+  defaultSource,
   gameStarted,
   onStartGame,
+  onLevelFileSelected,
+  onExit,
+  exitLabel = 'Exit',
+  savedRun,
+  onContinueGame,
+  resumeStats,
+  onRunProgress,
+  runScore = 0,
+  adaptiveDifficulty,
+  onAdaptiveDifficultyChange,
+  levelAdjustment,
+  nextDifficulty,
+  requestSegment,
+  onRestartEndless,
+  onQuitToMenu,
+  timeTrial = false,
 }) => {
   const pixiContainerRef = useRef<HTMLDivElement>(null);
   const pixiAppRef = useRef<PIXI.Application | null>(null);
@@ -130,43 +164,76 @@ const GameScreen: FC<GameScreenProps> = ({
   const [isPaused, setIsPaused] = useState<boolean>(false);
   const [elapsedTime, setElapsedTime] = useState<number>(0);
   const levelStartTimeRef = useRef<number | null>(null);
-  const [startScreenDifficulty, setStartScreenDifficulty] = useState<GenerateLevelInput['difficulty']>(defaultDifficulty || 'medium');
-  const [globalVolume, setGlobalVolume] = useState<number>(1);
+  const [startScreenDifficulty, setStartScreenDifficulty] = useState<GenerateLevelInput['difficulty']>(getDifficultyBand(defaultDifficultyRating));
+  const [startScreenSource, setStartScreenSource] = useState<LevelSource>(defaultSource || 'ai');
+  const [startScreenMode, setStartScreenMode] = useState<GameMode>('levels');
+  const [globalVolume, setGlobalVolume] = useState<number>(DEFAULT_SETTINGS.volume);
+  const settingsLoadedRef = useRef(false);
   const [currentStandingPlatformIndex, setCurrentStandingPlatformIndex] = useState<number | null>(null);
+  const [collectibleScore, setCollectibleScore] = useState(0);
+  // The finished level's results, shown until the player retries or moves on.
+  const [completion, setCompletion] = useState<{
+    result: LevelResult;
+    previousBest: PersonalBest | null;
+    timeTrial?: { run: TimeTrialRun; previousBest: TimeTrialBest | null };
+    replay?: Replay;
+  } | null>(null);
+  // The summary of an endless run, shown once the player has died.
+  const [endlessSummary, setEndlessSummary] = useState<{ result: EndlessResult; previousBest: EndlessBest | null } | null>(null);
+  const [distance, setDistance] = useState(0);
+  // The time-trial clock and delta as last shown; the HUD refreshes every few ticks.
+  const [trialTicks, setTrialTicks] = useState(0);
+  const [trialDelta, setTrialDelta] = useState<number | null>(null);
+  const trialSplitsRef = useRef<Split[]>([]);
+  const trialBestRef = useRef<TimeTrialBest | null>(null);
+  // The current attempt's input, tick by tick; endless runs are not recorded.
+  const inputRecordingRef = useRef(createInputRecording());
+  // The replay open in the viewer, and whether it was opened from the pause menu.
+  const [viewedReplay, setViewedReplay] = useState<{ replay: Replay; fromPauseMenu: boolean } | null>(null);
+  // Bumped to replay the current level from the start.
+  const [attempt, setAttempt] = useState(0);
+  // Per-level stats; deathCount covers the whole run.
+  const levelDeathsRef = useRef(0);
+  const levelJumpsRef = useRef(0);
+  const furthestPlatformRef = useRef(0);
+  // The last platform stood on, where a death is recorded.
+  const lastPlatformRef = useRef(0);
+  const deathLocationsRef = useRef<DeathLocation[]>([]);
 
   const isMobile = useIsMobile();
+  const { toast } = useToast();
+  const router = useRouter();
 
   const jumpSoundRef = useRef<HTMLAudioElement | null>(null);
   const deathSoundRef = useRef<HTMLAudioElement | null>(null);
   const winSoundRef = useRef<HTMLAudioElement | null>(null);
 
-  const playerRef = useRef<{
-    sprite: PIXI.Graphics;
-    x: number;
-    y: number;
-    vx: number;
-    vy: number;
-    isJumping: boolean;
-    isCrouching: boolean;
-    onGround: boolean;
-    width: number;
-    height: number;
-    standingOnPlatform: PlatformObject | null;
-  } | null>(null);
-
-  const platformObjectsRef = useRef<PlatformObject[]>([]);
+  const worldRef = useRef<World | null>(null);
+  const clockRef = useRef(createFixedStepClock());
+  const playerSpriteRef = useRef<PIXI.Graphics | null>(null);
+  const platformSpritesRef = useRef<PIXI.Graphics[]>([]);
+  const obstacleSpritesRef = useRef<PIXI.Graphics[]>([]);
+  const goalSpriteRef = useRef<PIXI.Graphics | null>(null);
+  const collectibleSpritesRef = useRef<PIXI.Graphics[]>([]);
+  const segmentStreamRef = useRef<SegmentStream<GeneratedSegment | { error: string }>>(createSegmentStream());
+  // The endless level's segments still in the world, oldest first, and how many came before them.
+  const worldSegmentsRef = useRef<WorldSegment[]>([]);
+  const culledSegmentsRef = useRef(0);
+  // Value of the collectibles picked up on culled segments.
+  const culledCollectibleScoreRef = useRef(0);
+  const startXRef = useRef(0);
+  const furthestXRef = useRef(0);
   const keysPressedRef = useRef<Set<string>>(new Set());
-  const lastPlatformRef = useRef<PlatformObject | null>(null);
-  const newLevelRequestedRef = useRef<boolean>(false);
+  const levelFileInputRef = useRef<HTMLInputElement>(null);
+  const replayFileInputRef = useRef<HTMLInputElement>(null);
   const prevLevelIdRef = useRef<number | undefined>();
-
-  const tempRect1 = useMemo(() => ({ x: 0, y: 0, width: 0, height: 0 }), []);
-  const tempRect2 = useMemo(() => ({ x: 0, y: 0, width: 0, height: 0 }), []);
+  const appliedResumeStatsRef = useRef<RunStats | null>(null);
 
 
   const parsedData = useMemo(() => {
     if (gameStarted && levelOutput?.levelData) {
-      return parseLevelData(levelOutput.levelData);
+      const result = parseLevelData(levelOutput.levelData);
+      return result.success ? result.level : null;
     }
     return null;
   }, [levelOutput, gameStarted]);
@@ -204,7 +271,6 @@ const GameScreen: FC<GameScreenProps> = ({
         setElapsedTime(0);
         setCurrentStandingPlatformIndex(null);
         levelStartTimeRef.current = null;
-        newLevelRequestedRef.current = false;
         return;
     }
     
@@ -217,19 +283,41 @@ const GameScreen: FC<GameScreenProps> = ({
         setElapsedTime(0);
         setCurrentStandingPlatformIndex(null);
         levelStartTimeRef.current = Date.now();
-        newLevelRequestedRef.current = false;
     } else if (currentLevelId === 0 && (previousLevelId === -1 || previousLevelId !==0) ) { // Manual generation for level 0
         setElapsedTime(0);
         setCurrentStandingPlatformIndex(null);
         levelStartTimeRef.current = parsedData ? Date.now() : null; 
-        newLevelRequestedRef.current = false;
     } else if (parsedData && !levelStartTimeRef.current && currentLevelId > 0){ // Level > 0 data loaded, timer not started
         levelStartTimeRef.current = Date.now();
     }
 
 
+    if (resumeStats && parsedData && appliedResumeStatsRef.current !== resumeStats) {
+        appliedResumeStatsRef.current = resumeStats;
+        setDeathCount(resumeStats.deaths);
+        setElapsedTime(resumeStats.elapsedSeconds);
+        levelStartTimeRef.current = Date.now() - resumeStats.elapsedSeconds * 1000;
+    }
+
     prevLevelIdRef.current = currentLevelId;
-  }, [levelId, gameStarted, parsedData]);
+  }, [levelId, gameStarted, parsedData, resumeStats]);
+
+  useEffect(() => {
+    if (settingsLoadedRef.current) saveSettings({ volume: globalVolume });
+  }, [globalVolume]);
+
+  // Loaded after mount, as localStorage is not available during server rendering.
+  useEffect(() => {
+    setGlobalVolume(loadSettings().volume);
+    settingsLoadedRef.current = true;
+  }, []);
+
+  const elapsedWholeSeconds = Math.floor(elapsedTime);
+  useEffect(() => {
+    if (!gameStarted || isLoading || !parsedData || !levelStartTimeRef.current) return;
+    onRunProgress?.({ deaths: deathCount, elapsedSeconds: elapsedTime });
+    // elapsedTime itself changes every frame; whole seconds are enough for saving.
+  }, [deathCount, elapsedWholeSeconds, gameStarted, isLoading, parsedData, onRunProgress]);
 
 
   useEffect(() => {
@@ -238,10 +326,12 @@ const GameScreen: FC<GameScreenProps> = ({
         pixiAppRef.current.destroy(true, { children: true, texture: true, baseTexture: true });
         pixiAppRef.current = null;
         gameContainerRef.current = null;
-        if (playerRef.current?.sprite) playerRef.current.sprite.destroy();
-        playerRef.current = null;
-        platformObjectsRef.current = [];
-        lastPlatformRef.current = null;
+        worldRef.current = null;
+        playerSpriteRef.current = null;
+        platformSpritesRef.current = [];
+        obstacleSpritesRef.current = [];
+        goalSpriteRef.current = null;
+        collectibleSpritesRef.current = [];
       }
       return;
     }
@@ -304,10 +394,12 @@ const GameScreen: FC<GameScreenProps> = ({
         pixiAppRef.current.destroy(true, { children: true, texture: true, baseTexture: true });
         pixiAppRef.current = null;
         gameContainerRef.current = null; // Ensure gameContainerRef is also nulled
-        if (playerRef.current?.sprite) playerRef.current.sprite.destroy();
-        playerRef.current = null;
-        platformObjectsRef.current = [];
-        lastPlatformRef.current = null;
+        worldRef.current = null;
+        playerSpriteRef.current = null;
+        platformSpritesRef.current = [];
+        obstacleSpritesRef.current = [];
+        goalSpriteRef.current = null;
+        collectibleSpritesRef.current = [];
       }
     };
   }, [gameStarted, handleResize]);
@@ -319,13 +411,19 @@ const GameScreen: FC<GameScreenProps> = ({
 
     if (gameContainer) {
         gameContainer.removeChildren(); 
-        platformObjectsRef.current.forEach(pObj => { if(pObj.sprite) pObj.sprite.destroy()}); 
-        platformObjectsRef.current = [];
-        lastPlatformRef.current = null;
-        if (playerRef.current?.sprite) {
-            playerRef.current.sprite.destroy(); 
+        platformSpritesRef.current.forEach(sprite => sprite.destroy());
+        platformSpritesRef.current = [];
+        obstacleSpritesRef.current.forEach(sprite => sprite.destroy());
+        obstacleSpritesRef.current = [];
+        goalSpriteRef.current?.destroy();
+        goalSpriteRef.current = null;
+        collectibleSpritesRef.current.forEach(sprite => sprite.destroy());
+        collectibleSpritesRef.current = [];
+        if (playerSpriteRef.current) {
+            playerSpriteRef.current.destroy(); 
         }
-        playerRef.current = null; 
+        playerSpriteRef.current = null; 
+        worldRef.current = null;
     }
 
 
@@ -333,86 +431,65 @@ const GameScreen: FC<GameScreenProps> = ({
       if (gameContainer && app && app.renderer) handleResize(); // Call resize even if empty
       return;
     }
-    
-    parsedData.platforms.forEach((platformData: PlatformData) => {
-      const pSprite = new PIXI.Graphics();
-      let platformColor = PLATFORM_COLOR_STANDARD;
-      switch(platformData.type) {
-        case 'standard': platformColor = PLATFORM_COLOR_STANDARD; break;
-        case 'mobile': platformColor = PLATFORM_COLOR_MOBILE; break;
-        case 'vertical_mobile': platformColor = PLATFORM_COLOR_VERTICAL_MOBILE; break;
-        case 'timed': platformColor = PLATFORM_COLOR_TIMED; break;
-        case 'breakable': platformColor = PLATFORM_COLOR_BREAKABLE; break;
-        default: platformColor = PLATFORM_COLOR_STANDARD;
-      }
-      pSprite.rect(0, 0, platformData.width, DEFAULT_PLATFORM_HEIGHT)
-             .fill(platformColor);
-      pSprite.x = platformData.x;
-      pSprite.y = platformData.y;
-      gameContainer.addChild(pSprite);
-
-      const platformObj: PlatformObject = {
-        sprite: pSprite, initialX: platformData.x, initialY: platformData.y,
-        width: platformData.width, height: DEFAULT_PLATFORM_HEIGHT,
-        type: platformData.type || 'standard', currentSpeedX: 0, currentSpeedY: 0,
-      };
-
-      if (platformData.type === 'mobile') {
-        platformObj.moveDirectionX = 1; platformObj.moveRangeX = platformData.width > 0 ? (platformData.width * 0.8 + 20) : DEFAULT_PLATFORM_MOVE_RANGE;
-      }
-      if (platformData.type === 'vertical_mobile') {
-        platformObj.moveDirectionY = 1; platformObj.moveRangeY = DEFAULT_PLATFORM_MOVE_RANGE;
-      }
-      if (platformData.type === 'timed') {
-        platformObj.isVisible = true; platformObj.visibleDuration = TIMED_PLATFORM_VISIBLE_DURATION;
-        platformObj.hiddenDuration = TIMED_PLATFORM_HIDDEN_DURATION; platformObj.timer = platformObj.visibleDuration;
-        pSprite.visible = true;
-      }
-      if (platformData.type === 'breakable') {
-        platformObj.isBroken = false; platformObj.isBreaking = false;
-        platformObj.breakingTimer = 0; platformObj.respawnTimer = 0;
-        pSprite.visible = true;
-      }
-      platformObjectsRef.current.push(platformObj);
-    });
 
-    if (platformObjectsRef.current.length > 0) {
-        let rightmostPlatformCandidate: PlatformObject | null = null;
-        let maxRightEdgeCoord = -Infinity;
-        platformObjectsRef.current.forEach(pObj => {
-            const rightEdge = pObj.initialX + pObj.width;
-            if (rightEdge > maxRightEdgeCoord) {
-                maxRightEdgeCoord = rightEdge;
-                rightmostPlatformCandidate = pObj;
-            }
-        });
-        lastPlatformRef.current = rightmostPlatformCandidate;
-    }
+    const world = createWorld(parsedData, { goal: !requestSegment });
+    worldRef.current = world;
+    const lastPlatform = world.platforms[world.platforms.length - 1];
+    segmentStreamRef.current = createSegmentStream();
+    worldSegmentsRef.current = [{
+      exitX: lastPlatform.initialX + lastPlatform.width,
+      platforms: world.platforms.length,
+      obstacles: world.obstacles.length,
+      collectibles: world.collectibles.length,
+    }];
+    culledSegmentsRef.current = 0;
+    culledCollectibleScoreRef.current = 0;
+    startXRef.current = furthestXRef.current = world.player.x;
+    setDistance(0);
+    setEndlessSummary(null);
+    trialSplitsRef.current = [];
+    trialBestRef.current = timeTrial && levelOutput ? loadTimeTrialBest(levelOutput.levelData) : null;
+    setTrialTicks(0);
+    setTrialDelta(null);
+    inputRecordingRef.current = createInputRecording();
+    clockRef.current = createFixedStepClock();
+    levelDeathsRef.current = 0;
+    levelJumpsRef.current = 0;
+    furthestPlatformRef.current = 0;
+    lastPlatformRef.current = world.spawnPlatform ? world.platforms.indexOf(world.spawnPlatform) + 1 : 0;
+    deathLocationsRef.current = [];
+    setCollectibleScore(0);
+    setCompletion(null);
+
+    addEntitySprites(gameContainer, world, {
+      platforms: platformSpritesRef.current,
+      obstacles: obstacleSpritesRef.current,
+      collectibles: collectibleSpritesRef.current,
+    });
 
-    let startX = 50, startY = 100;
-    if (platformObjectsRef.current.length > 0) {
-        const firstPlatform = platformObjectsRef.current.find(p => p.type === 'standard' || !p.type) || platformObjectsRef.current[0];
-        startX = firstPlatform.sprite.x + firstPlatform.width / 2 - PLAYER_WIDTH / 2;
-        startY = firstPlatform.sprite.y - PLAYER_HEIGHT;
+    if (world.goal) {
+      const goalSprite = new PIXI.Graphics();
+      drawGoal(goalSprite, world.goal);
+      goalSprite.x = world.goal.x;
+      goalSprite.y = world.goal.y;
+      gameContainer.addChild(goalSprite);
+      goalSpriteRef.current = goalSprite;
     }
 
+    const player = world.player;
     const playerSprite = new PIXI.Graphics(); 
-    playerRef.current = {
-        sprite: playerSprite, x: startX, y: startY, vx: 0, vy: 0,
-        isJumping: false, isCrouching: false, onGround: false,
-        width: PLAYER_WIDTH, height: PLAYER_HEIGHT, standingOnPlatform: null,
-    };
-    playerSprite.rect(0, 0, playerRef.current.width, playerRef.current.height).fill(PLAYER_COLOR);
-    playerSprite.x = playerRef.current.x; playerSprite.y = playerRef.current.y;
+    playerSprite.rect(0, 0, player.width, player.height).fill(PLAYER_COLOR);
+    playerSprite.x = player.x; playerSprite.y = player.y;
     gameContainer.addChild(playerSprite); 
-    if (playerRef.current.sprite) playerRef.current.sprite.visible = true;
+    playerSprite.visible = true;
+    playerSpriteRef.current = playerSprite;
 
 
     handleResize(); 
 
-    if (playerRef.current && Number.isFinite(playerRef.current.x) && Number.isFinite(playerRef.current.y) && app && app.renderer && gameContainer) {
-        gameContainer.pivot.x = playerRef.current.x + playerRef.current.width / 2;
-        gameContainer.pivot.y = playerRef.current.y + playerRef.current.height / 2;
+    if (Number.isFinite(player.x) && Number.isFinite(player.y) && app && app.renderer && gameContainer) {
+        gameContainer.pivot.x = player.x + player.width / 2;
+        gameContainer.pivot.y = player.y + player.height / 2;
         gameContainer.x = app.screen.width / 2;
         gameContainer.y = app.screen.height / 2;
     } else if (gameContainer && app && app.renderer) { // Fallback if player not ready but app is
@@ -422,22 +499,86 @@ const GameScreen: FC<GameScreenProps> = ({
          gameContainer.y = app.screen.height / 2;
     }
 
-  }, [parsedData, gameStarted, handleResize]);
+  }, [parsedData, gameStarted, handleResize, attempt, requestSegment, timeTrial, levelOutput]);
+
+  // Index of the endless level's segment that contains x.
+  const getSegmentIndex = (x: number): number =>
+    culledSegmentsRef.current + worldSegmentsRef.current.filter(segment => x > segment.exitX).length;
+
+  // Requests the segments ahead of the player, adds those that have arrived to the world
+  // and removes the ones far enough behind to be off screen for good. Returns the error
+  // when the next segment could not be generated, as the level cannot go on without it.
+  const extendEndlessLevel = useCallback((world: World, gameContainer: PIXI.Container, playerSprite: PIXI.Graphics): string | null => {
+    if (!requestSegment) return null;
+    const stream = segmentStreamRef.current;
+    const segments = worldSegmentsRef.current;
+    const sprites: EntitySprites = {
+      platforms: platformSpritesRef.current,
+      obstacles: obstacleSpritesRef.current,
+      collectibles: collectibleSpritesRef.current,
+    };
+    fillSegmentStream(stream, getSegmentIndex(world.player.x), requestSegment);
+    for (let segment = takeNextSegment(stream); segment; segment = takeNextSegment(stream)) {
+      if ('error' in segment) return segment.error;
+      const validation = parseLevelData(segment.levelData);
+      // Segments are validated when generated, so this is corrupt data. Skipping it would
+      // join the next segment at the wrong height.
+      if (!validation.success) return formatLevelIssues(validation.issues.filter(issue => issue.severity === 'error'));
+      const lastPlatform = world.platforms[world.platforms.length - 1];
+      const placed = placeSegment(validation.level, { x: lastPlatform.initialX });
+      extendWorld(world, placed);
+      addEntitySprites(gameContainer, world, sprites, playerSprite);
+      const exit = world.platforms[world.platforms.length - 1];
+      segments.push({
+        exitX: exit.initialX + exit.width,
+        platforms: placed.platforms.length,
+        obstacles: placed.obstacles.length,
+        collectibles: placed.collectibles?.length ?? 0,
+      });
+    }
+
+    // The segment before the player's stays, so the camera never shows a gap behind them.
+    while (segments.length > 1 && world.player.x > segments[1].exitX) {
+      const culled = segments.shift()!;
+      culledCollectibleScoreRef.current += getCollectedScore(world.collectibles.slice(0, culled.collectibles));
+      removeLeadingEntities(world, culled);
+      removeEntitySprites(sprites, culled);
+      culledSegmentsRef.current++;
+    }
+    return null;
+  }, [requestSegment]);
+
+  // Ends an endless run on the player's first death and records it.
+  const finishEndlessRun = useCallback((world: World) => {
+    const distance = getEndlessDistance(startXRef.current, furthestXRef.current);
+    const collectibleScore = culledCollectibleScoreRef.current + getCollectedScore(world.collectibles);
+    const segmentsCleared = getSegmentIndex(furthestXRef.current);
+    const startRating = levelOutput && 'input' in levelOutput ? levelOutput.input.difficultyRating : defaultDifficultyRating;
+    const result: EndlessResult = {
+      score: calculateEndlessScore(distance, collectibleScore),
+      distance,
+      elapsedSeconds: levelStartTimeRef.current ? (Date.now() - levelStartTimeRef.current) / 1000 : elapsedTime,
+      segmentsCleared,
+      difficultyRating: getEndlessSegmentRating(startRating, segmentsCleared),
+    };
+    keysPressedRef.current.clear();
+    setEndlessSummary({ result, previousBest: recordEndlessBest(result) });
+  }, [levelOutput, defaultDifficultyRating, elapsedTime]);
 
 
-  const gameLoop = useCallback((delta: PIXI.TickerCallback<any>) => {
-    const player = playerRef.current;
-    const keys = keysPressedRef.current;
+  const gameLoop = useCallback((ticker: PIXI.Ticker) => {
+    const world = worldRef.current;
+    const playerSprite = playerSpriteRef.current;
     const app = pixiAppRef.current;
     const gameContainer = gameContainerRef.current;
 
-    if (!gameStarted || !player || !app || !gameContainer || isLoading || isPaused ) return;
+    if (!gameStarted || !world || !playerSprite || !app || !gameContainer || isLoading || isPaused || completion || endlessSummary || viewedReplay) return;
 
     if (!parsedData || parsedData.platforms.length === 0) {
-        if (player.sprite) player.sprite.visible = false;
+        playerSprite.visible = false;
         return;
     }
-    if (player.sprite && !player.sprite.visible) player.sprite.visible = true;
+    if (!playerSprite.visible) playerSprite.visible = true;
 
 
     if (levelStartTimeRef.current && !isPaused && (levelId > 0 || (levelId === 0 && parsedData && gameStarted))) {
@@ -447,250 +588,164 @@ const GameScreen: FC<GameScreenProps> = ({
         }
     }
 
-    platformObjectsRef.current.forEach(pObj => {
-      pObj.currentSpeedX = 0; pObj.currentSpeedY = 0;
-
-      if (pObj.type === 'mobile' && pObj.moveDirectionX !== undefined && pObj.moveRangeX !== undefined) {
-        const prevSpriteX = pObj.sprite.x;
-        let nextX = pObj.sprite.x + (DEFAULT_PLATFORM_MOVE_SPEED * pObj.moveDirectionX);
-        let collided = false;
-        
-        tempRect1.x = nextX; tempRect1.y = pObj.sprite.y; tempRect1.width = pObj.width; tempRect1.height = pObj.height;
-
-        for (const otherP of platformObjectsRef.current) {
-            if (pObj === otherP) continue;
-            const otherSolid = !((otherP.type === 'timed' && !otherP.isVisible) || (otherP.type === 'breakable' && (otherP.isBroken || (otherP.isBreaking && otherP.breakingTimer !== undefined && otherP.breakingTimer <=0) )));
-            if (otherSolid) {
-                tempRect2.x = otherP.sprite.x; tempRect2.y = otherP.sprite.y; tempRect2.width = otherP.width; tempRect2.height = otherP.height;
-                if (checkCollision(tempRect1, tempRect2)) { pObj.moveDirectionX *= -1; nextX = pObj.sprite.x; collided = true; break; }
+    // The simulation advances in fixed ticks regardless of the display refresh rate;
+    // rendering interpolates between the last two ticks.
+    const clock = clockRef.current;
+    const steps = consumeSteps(clock, ticker.deltaMS);
+    const input = inputFromKeys(keysPressedRef.current);
+    // An endless run ends at the first death.
+    let runOver = false;
+    for (let i = 0; i < steps && !runOver; i++) {
+      lastPlatformRef.current = getStandingPlatformNumber(world) ?? lastPlatformRef.current;
+      if (!requestSegment) recordInput(inputRecordingRef.current, input);
+      const events = step(world, input);
+      furthestXRef.current = Math.max(furthestXRef.current, world.player.x);
+      for (const event of events) {
+        switch (event.type) {
+          case 'jump':
+            playSound(jumpSoundRef.current, globalVolume);
+            levelJumpsRef.current++;
+            break;
+          case 'death':
+            playSound(deathSoundRef.current, globalVolume);
+            setDeathCount(prev => prev + 1);
+            levelDeathsRef.current++;
+            deathLocationsRef.current.push({ platform: lastPlatformRef.current, cause: event.cause });
+            if (requestSegment) runOver = true;
+            break;
+          case 'collect': {
+            const sprite = collectibleSpritesRef.current[event.collectible];
+            if (sprite) sprite.visible = false;
+            setCollectibleScore(culledCollectibleScoreRef.current + getCollectedScore(world.collectibles));
+            break;
+          }
+          case 'checkpoint':
+            redrawCheckpoints(world, platformSpritesRef.current);
+            if (timeTrial && !trialSplitsRef.current.some(split => split.checkpoint === event.platform + 1)) {
+              trialSplitsRef.current.push({ checkpoint: event.platform + 1, ticks: world.tick });
+              setTrialDelta(getLiveDelta(trialBestRef.current, trialSplitsRef.current, world.tick));
             }
-        }
-        if (!collided) {
-            if (pObj.moveDirectionX === 1 && nextX > pObj.initialX + pObj.moveRangeX) { nextX = pObj.initialX + pObj.moveRangeX; pObj.moveDirectionX = -1; }
-            else if (pObj.moveDirectionX === -1 && nextX < pObj.initialX - pObj.moveRangeX) { nextX = pObj.initialX - pObj.moveRangeX; pObj.moveDirectionX = 1; }
-        }
-        pObj.sprite.x = nextX; pObj.currentSpeedX = pObj.sprite.x - prevSpriteX;
-      }
-
-      if (pObj.type === 'vertical_mobile' && pObj.moveDirectionY !== undefined && pObj.moveRangeY !== undefined) {
-        const prevSpriteY = pObj.sprite.y;
-        let nextY = pObj.sprite.y + (DEFAULT_PLATFORM_MOVE_SPEED * pObj.moveDirectionY);
-        let collided = false;
-
-        tempRect1.x = pObj.sprite.x; tempRect1.y = nextY; tempRect1.width = pObj.width; tempRect1.height = pObj.height;
-
-        for (const otherP of platformObjectsRef.current) {
-            if (pObj === otherP) continue;
-            const otherSolid = !((otherP.type === 'timed' && !otherP.isVisible) || (otherP.type === 'breakable' && (otherP.isBroken || (otherP.isBreaking && otherP.breakingTimer !== undefined && otherP.breakingTimer <=0) )));
-            if (otherSolid) {
-                tempRect2.x = otherP.sprite.x; tempRect2.y = otherP.sprite.y; tempRect2.width = otherP.width; tempRect2.height = otherP.height;
-                if (checkCollision(tempRect1, tempRect2)) { pObj.moveDirectionY *= -1; nextY = pObj.sprite.y; collided = true; break; }
+            break;
+          case 'win': {
+            playSound(winSoundRef.current, globalVolume);
+            const elapsedSeconds = timeTrial
+              ? ticksToSeconds(world.tick)
+              : levelStartTimeRef.current ? (Date.now() - levelStartTimeRef.current) / 1000 : elapsedTime;
+            const score = calculateLevelScore({
+              collectibleScore: getCollectedScore(world.collectibles),
+              elapsedSeconds,
+              deaths: levelDeathsRef.current,
+              completed: true,
+            });
+            const result: LevelResult = {
+              score,
+              collected: world.collectibles.filter(c => c.collected).length,
+              totalCollectibles: world.collectibles.length,
+              deaths: levelDeathsRef.current,
+              elapsedSeconds,
+              jumps: levelJumpsRef.current,
+              furthestPlatform: Math.max(furthestPlatformRef.current, getStandingPlatformNumber(world) ?? 0),
+              totalPlatforms: world.platforms.length,
+              deathLocations: [...deathLocationsRef.current],
+            };
+            const previousBest = levelOutput
+              ? recordPersonalBest(levelOutput.levelData, { elapsedSeconds, score: score.total, deaths: result.deaths })
+              : null;
+            const trialRun: TimeTrialRun = { ticks: world.tick, splits: [...trialSplitsRef.current] };
+            const trial = timeTrial && levelOutput
+              ? { run: trialRun, previousBest: recordTimeTrialBest(levelOutput.levelData, trialRun) }
+              : undefined;
+            if (trial) {
+              setTrialTicks(trialRun.ticks);
+              setTrialDelta(trial.previousBest ? trialRun.ticks - trial.previousBest.ticks : null);
             }
-        }
-        if (!collided) {
-            if (pObj.moveDirectionY === 1 && nextY > pObj.initialY + pObj.moveRangeY) { nextY = pObj.initialY + pObj.moveRangeY; pObj.moveDirectionY = -1; }
-            else if (pObj.moveDirectionY === -1 && nextY < pObj.initialY - pObj.moveRangeY) { nextY = pObj.initialY - pObj.moveRangeY; pObj.moveDirectionY = 1; }
-        }
-        pObj.sprite.y = nextY; pObj.currentSpeedY = pObj.sprite.y - prevSpriteY;
-      }
-
-      if (pObj.type === 'timed' && pObj.timer !== undefined && pObj.isVisible !== undefined && pObj.visibleDuration !== undefined && pObj.hiddenDuration !== undefined) {
-        pObj.timer--;
-        if (pObj.timer <= 0) { pObj.isVisible = !pObj.isVisible; pObj.sprite.visible = pObj.isVisible; pObj.timer = pObj.isVisible ? pObj.visibleDuration : pObj.hiddenDuration; }
-      }
-
-      if (pObj.type === 'breakable') {
-        if (pObj.isBreaking && pObj.breakingTimer !== undefined && pObj.breakingTimer > 0) {
-          pObj.breakingTimer--;
-          if (pObj.breakingTimer <= 0) {
-            pObj.isBroken = true; pObj.sprite.visible = false; pObj.respawnTimer = BREAKABLE_PLATFORM_RESPAWN_DURATION;
-            pObj.isBreaking = false; if (player.standingOnPlatform === pObj) { player.standingOnPlatform = null; player.onGround = false; setCurrentStandingPlatformIndex(null); }
+            // Runs too long to be opened again are not offered as replays.
+            const replay = parsedData && inputRecordingRef.current.ticks <= MAX_REPLAY_TICKS
+              ? createReplay(parsedData, inputRecordingRef.current, levelOutput && 'seed' in levelOutput ? levelOutput.seed : undefined)
+              : undefined;
+            keysPressedRef.current.clear();
+            setCompletion({ result, previousBest, timeTrial: trial, replay });
+            onLevelComplete?.(result);
+            break;
           }
-        } else if (pObj.isBroken && pObj.respawnTimer !== undefined) {
-          pObj.respawnTimer--;
-          if (pObj.respawnTimer <= 0) { pObj.isBroken = false; pObj.sprite.visible = true; pObj.isBreaking = false; pObj.breakingTimer = 0; }
-        }
-      }
-    });
-
-    if (player.onGround && player.standingOnPlatform) {
-      if (player.standingOnPlatform.currentSpeedX) player.x += player.standingOnPlatform.currentSpeedX;
-      if (player.standingOnPlatform.currentSpeedY) player.y += player.standingOnPlatform.currentSpeedY;
-    }
-
-    const wasCrouching = player.isCrouching;
-    player.isCrouching = (keys.has('KeyS') || keys.has('ArrowDown')) && player.onGround;
-    const targetHeight = player.isCrouching ? PLAYER_CROUCH_HEIGHT : PLAYER_HEIGHT;
-    const heightDiff = PLAYER_HEIGHT - PLAYER_CROUCH_HEIGHT;
-
-    if (player.height !== targetHeight) {
-        if (player.isCrouching && !wasCrouching) { player.y += heightDiff; player.height = PLAYER_CROUCH_HEIGHT; }
-        else if (!player.isCrouching && wasCrouching) {
-            tempRect1.x = player.x; tempRect1.y = player.y - heightDiff; tempRect1.width = player.width; tempRect1.height = PLAYER_HEIGHT;
-            let canUncrouch = true;
-            for (const p of platformObjectsRef.current) {
-                tempRect2.x = p.sprite.x; tempRect2.y = p.sprite.y; tempRect2.width = p.width; tempRect2.height = p.height;
-                const pSolid = !((p.type === 'timed' && !p.isVisible) || (p.type === 'breakable' && (p.isBroken || p.isBreaking)));
-                if (pSolid && checkCollision(tempRect1, tempRect2)) { canUncrouch = false; break; }
-            }
-            if (canUncrouch) { player.y -= heightDiff; player.height = PLAYER_HEIGHT; }
-            else { player.isCrouching = true; }
         }
-    }
-
-    player.vx = 0;
-    if (!player.isCrouching) {
-        if (keys.has('KeyA') || keys.has('ArrowLeft')) player.vx = -PLAYER_SPEED;
-        if (keys.has('KeyD') || keys.has('ArrowRight')) player.vx = PLAYER_SPEED;
-    }
-
-    if ((keys.has('KeyW') || keys.has('ArrowUp') || keys.has('Space')) && player.onGround && !player.isCrouching) {
-      player.vy = -JUMP_FORCE; player.isJumping = true; player.onGround = false; player.standingOnPlatform = null; setCurrentStandingPlatformIndex(null);
-      if (jumpSoundRef.current) {
-        jumpSoundRef.current.volume = globalVolume;
-        jumpSoundRef.current.currentTime = 0;
-        jumpSoundRef.current.play().catch(e => {});
       }
     }
-
-    if (!player.onGround) player.vy += GRAVITY;
-    else { if (player.vy > 0) player.vy = 0; }
-
-    const prevPlayerX = player.x; player.x += player.vx;
-    const prevPlayerY = player.y; player.y += player.vy;
-
-    player.onGround = false;
-    if (player.standingOnPlatform) {
-        const p = player.standingOnPlatform;
-        if ((p.type === 'timed' && !p.isVisible) || (p.type === 'breakable' && p.isBroken)) {
-            player.standingOnPlatform = null;
-            setCurrentStandingPlatformIndex(null);
-        }
-    }
-
-    const collidablePlatforms = platformObjectsRef.current.filter(p => {
-      if (p.type === 'breakable' && (p.isBroken || (p.isBreaking && p.breakingTimer !== undefined && p.breakingTimer <=0))) return false;
-      if (p.type === 'timed' && !p.isVisible) return false;
-      return true;
-    });
-
-    for (const pObj of collidablePlatforms) {
-        tempRect1.x = pObj.sprite.x; tempRect1.y = pObj.sprite.y; tempRect1.width = pObj.width; tempRect1.height = pObj.height;
-        tempRect2.x = player.x; tempRect2.y = prevPlayerY; tempRect2.width = player.width; tempRect2.height = player.height; 
-
-        if (checkCollision(tempRect2, tempRect1)) {
-            if (player.vx > 0) player.x = tempRect1.x - player.width;
-            else if (player.vx < 0) player.x = tempRect1.x + tempRect1.width;
-            player.vx = 0;
-        }
+    if (runOver) {
+      finishEndlessRun(world);
+      return;
     }
-
-    for (const pObj of collidablePlatforms) {
-        tempRect1.x = pObj.sprite.x; tempRect1.y = pObj.sprite.y; tempRect1.width = pObj.width; tempRect1.height = pObj.height;
-        tempRect2.x = player.x; tempRect2.y = player.y; tempRect2.width = player.width; tempRect2.height = player.height; 
-
-        if (checkCollision(tempRect2, tempRect1)) {
-            if (player.vy > 0) {
-                if (prevPlayerY + player.height <= tempRect1.y + 1) {
-                    player.y = tempRect1.y - player.height; player.vy = 0; player.isJumping = false; player.onGround = true;
-                    player.standingOnPlatform = pObj;
-                    const newPlatformIndex = platformObjectsRef.current.findIndex(pf => pf === pObj);
-                    setCurrentStandingPlatformIndex(newPlatformIndex !== -1 ? newPlatformIndex + 1 : null);
-
-                    if (pObj.type === 'breakable' && !pObj.isBroken && !pObj.isBreaking) {
-                        pObj.isBreaking = true; pObj.breakingTimer = BREAKABLE_PLATFORM_BREAK_DELAY;
-                    }
-                }
-            } else if (player.vy < 0) {
-                if (prevPlayerY >= tempRect1.y + tempRect1.height -1 ) {
-                    player.y = tempRect1.y + tempRect1.height; player.vy = 0;
-                }
-            }
-        }
+    const segmentError = extendEndlessLevel(world, gameContainer, playerSprite);
+    if (segmentError) {
+      toast({ title: "Endless Run Ended", description: `The next segment could not be generated: ${segmentError}`, variant: "destructive" });
+      finishEndlessRun(world);
+      return;
     }
-
-    if (!player.onGround && player.standingOnPlatform) {
-        let stillOn = false; const p = player.standingOnPlatform;
-        if (!((p.type === 'timed' && !p.isVisible) || (p.type === 'breakable' && p.isBroken))) {
-             tempRect1.x = p.sprite.x; tempRect1.y = p.sprite.y; tempRect1.width = p.width; tempRect1.height = p.height;
-             const pFeetY = player.y + player.height;
-             if (player.x + player.width > tempRect1.x && player.x < tempRect1.x + tempRect1.width &&
-                 pFeetY >= tempRect1.y && pFeetY < tempRect1.y + Math.abs(player.vy) + GRAVITY + 1) {
-                 player.y = tempRect1.y - player.height; player.vy = 0; player.isJumping = false;
-                 player.onGround = true; stillOn = true;
-             }
-        }
-        if (!stillOn) {
-            player.standingOnPlatform = null;
-            setCurrentStandingPlatformIndex(null);
-        }
+    if (requestSegment) setDistance(getEndlessDistance(startXRef.current, furthestXRef.current));
+    if (timeTrial && !world.completed && world.tick - trialTicks >= TRIAL_HUD_REFRESH_TICKS) {
+      setTrialTicks(world.tick);
+      setTrialDelta(getLiveDelta(trialBestRef.current, trialSplitsRef.current, world.tick));
     }
-
-    player.sprite.x = player.x; player.sprite.y = player.y;
-    player.sprite.clear(); player.sprite.rect(0, 0, player.width, player.height).fill(PLAYER_COLOR);
-
-    let gameWorldMaxY = LOGICAL_GAME_HEIGHT + 200;
-    if (parsedData && parsedData.platforms.length > 0) {
-         gameWorldMaxY = Math.max(...parsedData.platforms.map(p => p.y + DEFAULT_PLATFORM_HEIGHT), LOGICAL_GAME_HEIGHT) + 200;
+    if (steps > 0) {
+      const standingNumber = getStandingPlatformNumber(world);
+      if (standingNumber !== null) furthestPlatformRef.current = Math.max(furthestPlatformRef.current, standingNumber);
+      setCurrentStandingPlatformIndex(standingNumber);
     }
-    if (player.y > gameWorldMaxY) {
-        if (deathSoundRef.current) {
-          deathSoundRef.current.volume = globalVolume;
-          deathSoundRef.current.currentTime = 0;
-          deathSoundRef.current.play().catch(e => {});
-        }
-        setDeathCount(prev => prev + 1); 
-        setCurrentStandingPlatformIndex(null);
 
-        if (platformObjectsRef.current.length > 0) {
-            const respawnP = platformObjectsRef.current.find(p => p.type === 'standard' || !p.type) || platformObjectsRef.current[0];
-            player.x = respawnP.sprite.x + respawnP.width / 2 - player.width / 2;
-            player.y = respawnP.sprite.y - PLAYER_HEIGHT;
-        } else { player.x = 50; player.y = 100; }
-        player.vy = 0; player.isJumping = false; player.onGround = false; player.standingOnPlatform = null;
-        player.height = PLAYER_HEIGHT; player.isCrouching = false;
+    const alpha = getInterpolationAlpha(clock);
+    syncEntitySprites(world, {
+      platforms: platformSpritesRef.current,
+      obstacles: obstacleSpritesRef.current,
+      collectibles: collectibleSpritesRef.current,
+    }, alpha);
+    if (world.goal && goalSpriteRef.current) {
+      goalSpriteRef.current.x = lerp(world.goal.prevX, world.goal.x, alpha);
+      goalSpriteRef.current.y = lerp(world.goal.prevY, world.goal.y, alpha);
     }
 
-    if (lastPlatformRef.current && player.standingOnPlatform === lastPlatformRef.current && player.onGround &&
-        !newLevelRequestedRef.current && onRequestNewLevel && !isLoading) {
-        if (winSoundRef.current) {
-            winSoundRef.current.volume = globalVolume;
-            winSoundRef.current.currentTime = 0;
-            winSoundRef.current.play().catch(e => {});
-        }
-      if (onRequestNewLevel) onRequestNewLevel();
-      newLevelRequestedRef.current = true;
-    }
+    const player = world.player;
+    const playerX = lerp(player.prevX, player.x, alpha);
+    const playerY = lerp(player.prevY, player.y, alpha);
+    playerSprite.x = playerX; playerSprite.y = playerY;
+    playerSprite.alpha = player.invulnerableTimer > 0 && Math.floor(player.invulnerableTimer / 6) % 2 === 0 ? 0.4 : 1;
+    playerSprite.clear(); playerSprite.rect(0, 0, player.width, player.height).fill(PLAYER_COLOR);
 
-    if (app && gameContainer && player && app.screen.width > 0 && app.screen.height > 0 && gameContainer.scale.x > 0 && gameContainer.scale.y > 0) {
-        let targetPivotX = player.x + player.width / 2;
-        let targetPivotY = player.y + player.height / 2;
+    if (app.screen.width > 0 && app.screen.height > 0 && gameContainer.scale.x > 0 && gameContainer.scale.y > 0) {
+        let targetPivotX = playerX + player.width / 2;
+        let targetPivotY = playerY + player.height / 2;
         if (player.isCrouching) {
-            targetPivotY = player.y + (PLAYER_CROUCH_HEIGHT / 2) + CROUCH_CAMERA_VIEW_ADJUST_WORLD;
+            targetPivotY = playerY + (PLAYER_CROUCH_HEIGHT / 2) + CROUCH_CAMERA_VIEW_ADJUST_WORLD;
         }
+        // CAMERA_LERP_FACTOR is tuned per 60Hz tick; scale it to this frame's length.
+        const cameraLerp = 1 - Math.pow(1 - CAMERA_LERP_FACTOR, ticker.deltaMS / FIXED_STEP_MS);
 
         if (!Number.isFinite(gameContainer.pivot.x) || !Number.isFinite(gameContainer.pivot.y) ||
             !Number.isFinite(targetPivotX) || !Number.isFinite(targetPivotY)) {
-            if (playerRef.current && Number.isFinite(playerRef.current.x) && Number.isFinite(playerRef.current.y)) {
-                 gameContainer.pivot.x = playerRef.current.x + playerRef.current.width / 2;
-                 gameContainer.pivot.y = playerRef.current.y + playerRef.current.height / 2;
+            if (Number.isFinite(player.x) && Number.isFinite(player.y)) {
+                 gameContainer.pivot.x = player.x + player.width / 2;
+                 gameContainer.pivot.y = player.y + player.height / 2;
             } else {
                  gameContainer.pivot.x = LOGICAL_GAME_WIDTH / 2;
                  gameContainer.pivot.y = LOGICAL_GAME_HEIGHT / 2;
             }
         } else {
-            gameContainer.pivot.x += (targetPivotX - gameContainer.pivot.x) * CAMERA_LERP_FACTOR;
-            gameContainer.pivot.y += (targetPivotY - gameContainer.pivot.y) * CAMERA_LERP_FACTOR;
+            gameContainer.pivot.x += (targetPivotX - gameContainer.pivot.x) * cameraLerp;
+            gameContainer.pivot.y += (targetPivotY - gameContainer.pivot.y) * cameraLerp;
         }
 
         gameContainer.x = app.screen.width / 2;
         gameContainer.y = app.screen.height / 2;
     }
-  }, [parsedData, onRequestNewLevel, isLoading, isPaused, gameStarted, globalVolume, levelId, elapsedTime, currentStandingPlatformIndex, tempRect1, tempRect2]);
+  }, [parsedData, onLevelComplete, levelOutput, isLoading, isPaused, completion, endlessSummary, gameStarted, globalVolume, levelId, elapsedTime, requestSegment, extendEndlessLevel, finishEndlessRun, timeTrial, trialTicks, viewedReplay, toast]);
 
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
-        if (!gameStarted || isLoading || isPaused) return;
+        // The restart key also works from the results screen, to go straight into another attempt.
+        if (timeTrial && event.code === RESTART_KEY && !event.repeat && gameStarted && !isLoading && !isPaused && !viewedReplay) {
+            handleRetryLevel();
+            return;
+        }
+        if (!gameStarted || isLoading || isPaused || completion || endlessSummary || viewedReplay) return;
         keysPressedRef.current.add(event.code);
     }
     const handleKeyUp = (event: KeyboardEvent) => {
@@ -702,7 +757,7 @@ const GameScreen: FC<GameScreenProps> = ({
     const app = pixiAppRef.current;
     if (gameStarted && app && app.ticker) {
       app.ticker.remove(gameLoop);
-      if (!isLoading && !isPaused) {
+      if (!isLoading && !isPaused && !completion && !endlessSummary && !viewedReplay) {
         app.ticker.add(gameLoop);
       }
     } else if (app && app.ticker) {
@@ -716,16 +771,114 @@ const GameScreen: FC<GameScreenProps> = ({
         app.ticker.remove(gameLoop);
       }
     };
-  }, [gameLoop, isLoading, isPaused, gameStarted]);
+  }, [gameLoop, isLoading, isPaused, completion, endlessSummary, gameStarted, timeTrial, viewedReplay]);
+
+  // An endless level cannot be replayed from its seed, so it is not shown.
+  const seedCode = levelOutput && 'seed' in levelOutput && !requestSegment ? formatSeed(levelOutput.seed) : null;
+  // While the next level loads, the finished level is already part of runScore.
+  const displayedScore = requestSegment ? calculateEndlessScore(distance, collectibleScore).total : isLoading ? runScore : completion ? runScore + completion.result.score.total : runScore + calculateLevelScore({
+    collectibleScore,
+    elapsedSeconds: elapsedTime,
+    deaths: levelDeathsRef.current,
+    completed: false,
+  }).total;
+
+  const handleCopySeed = async () => {
+    if (!seedCode) return;
+    try {
+      await navigator.clipboard.writeText(seedCode);
+      toast({ title: "Seed Copied", description: `Share seed ${seedCode} to replay this level.` });
+    } catch (error) {
+      toast({ title: "Copy Failed", description: `Your seed is ${seedCode}.`, variant: "destructive" });
+    }
+  };
+
+  const handleExportLevel = () => {
+    if (!parsedData) return;
+    const blob = new Blob([serializeLevelFile(parsedData)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `shifting-pixel-${seedCode ?? `level-${levelId}`}${LEVEL_FILE_EXTENSION}`.toLowerCase();
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Replays the level from the start; deaths still count towards the run.
+  const handleRetryLevel = () => {
+    setCompletion(null);
+    setAttempt(prev => prev + 1);
+    setElapsedTime(0);
+    setCurrentStandingPlatformIndex(null);
+    levelStartTimeRef.current = Date.now();
+  };
+
+  const handleEditLevel = async () => {
+    if (!parsedData) return;
+    router.push(`/editor#${LEVEL_FRAGMENT_KEY}=${await encodeLevelCode(parsedData)}`);
+  };
+
+  const handleCopyShareLink = async () => {
+    if (!parsedData) return;
+    try {
+      const shareUrl = await createShareUrl(parsedData, window.location.origin);
+      await navigator.clipboard.writeText(shareUrl);
+      toast({ title: "Share Link Copied", description: "Anyone with the link can play this level." });
+    } catch (error) {
+      toast({ title: "Copy Failed", description: "The share link could not be copied.", variant: "destructive" });
+    }
+  };
+
+  const handleLevelFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-importing the same file
+    if (!file || !onLevelFileSelected) return;
+    setIsPaused(false);
+    await onLevelFileSelected(file);
+  };
 
-  const handlePopoverFormSubmit = async (formData: Pick<GenerateLevelInput, 'difficulty'>) => {
+  const handleReplayFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-opening the same file
+    if (!file) return;
+    const parsed = parseReplayFile(await file.text());
+    if (!parsed.success) {
+      toast({ title: "Could Not Open Replay", description: parsed.message, variant: "destructive" });
+      return;
+    }
+    // The pause menu closes while the replay is watched and reopens afterwards.
+    setViewedReplay({ replay: parsed.replay, fromPauseMenu: isPaused });
     setIsPaused(false);
-    await onManualGenerateRequested(formData);
   };
 
+  const handleCloseReplay = () => {
+    if (viewedReplay?.fromPauseMenu) setIsPaused(true);
+    setViewedReplay(null);
+  };
+
+  const replayFileInput = (
+    <input
+      ref={replayFileInputRef}
+      type="file"
+      accept={`${REPLAY_FILE_EXTENSION},application/json`}
+      className="hidden"
+      onChange={handleReplayFileChange}
+    />
+  );
+  const replayViewer = viewedReplay && <ReplayViewer replay={viewedReplay.replay} onClose={handleCloseReplay} />;
+
+  const handlePopoverFormSubmit = async (formData: LevelRequest) => {
+    setIsPaused(false);
+    await onManualGenerateRequested?.(formData);
+  };
+
+  useEffect(() => {
+    setStartScreenDifficulty(getDifficultyBand(defaultDifficultyRating));
+  }, [defaultDifficultyRating]);
+
   useEffect(() => {
-    setStartScreenDifficulty(defaultDifficulty);
-  }, [defaultDifficulty]);
+    setStartScreenSource(defaultSource);
+  }, [defaultSource]);
 
 
   if (!gameStarted) {
@@ -753,18 +906,70 @@ const GameScreen: FC<GameScreenProps> = ({
               </SelectContent>
             </Select>
           </div>
+          <div className="w-full">
+            <Label htmlFor="source-select-start" className="text-foreground/80 mb-2 block text-sm">
+              Level Generator
+            </Label>
+            <Select
+              value={startScreenSource}
+              onValueChange={(value: LevelSource) => setStartScreenSource(value)}
+            >
+              <SelectTrigger id="source-select-start" className="w-full bg-input border-border focus:ring-primary h-11 text-base">
+                <SelectValue placeholder="Select generator" />
+              </SelectTrigger>
+              <SelectContent className="bg-popover border-border">
+                <SelectItem value="ai">AI</SelectItem>
+                <SelectItem value="procedural">Offline</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-full">
+            <Label htmlFor="mode-select-start" className="text-foreground/80 mb-2 block text-sm">
+              Mode
+            </Label>
+            <Select
+              value={startScreenMode}
+              onValueChange={(value: GameMode) => setStartScreenMode(value)}
+            >
+              <SelectTrigger id="mode-select-start" className="w-full bg-input border-border focus:ring-primary h-11 text-base">
+                <SelectValue placeholder="Select mode" />
+              </SelectTrigger>
+              <SelectContent className="bg-popover border-border">
+                <SelectItem value="levels">Levels</SelectItem>
+                <SelectItem value="endless">Endless</SelectItem>
+                <SelectItem value="time-trial">Time Trial</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {savedRun && onContinueGame && (
+            <Button
+              onClick={onContinueGame}
+              className="w-full bg-primary hover:bg-primary/90 text-primary-foreground uppercase tracking-wider text-lg py-3 h-auto flex-col shadow-md hover:shadow-lg transition-shadow"
+              size="lg"
+            >
+              <span>Continue</span>
+              <span className="text-xs normal-case tracking-normal opacity-80">
+                Level {savedRun.levelNumber} · Difficulty {savedRun.difficultyRating} · {savedRun.deaths} deaths
+              </span>
+            </Button>
+          )}
           <Button
-            onClick={() => onStartGame(startScreenDifficulty)}
+            onClick={() => onStartGame(DIFFICULTY_PRESETS[startScreenDifficulty], startScreenSource, startScreenMode)}
             className="w-full bg-accent hover:bg-accent/90 text-accent-foreground uppercase tracking-wider text-lg py-3 h-12 shadow-md hover:shadow-lg transition-shadow"
             size="lg"
           >
             Start Game
           </Button>
+          <Button variant="outline" className="w-full uppercase tracking-wider" onClick={() => replayFileInputRef.current?.click()}>
+            <Clapperboard className="mr-2 h-4 w-4" /> Watch Replay
+          </Button>
+          {replayFileInput}
         </div>
         <div className="pt-8 text-xs text-muted-foreground">
-          <p className="mb-1">Controls: A/D or ←/→ (Move), W/↑/Space (Jump), S/↓ (Crouch)</p>
+          <p className="mb-1">Controls: A/D or ←/→ (Move), W/↑/Space (Jump), S/↓ (Crouch), R (Restart, Time Trial)</p>
           <p>&copy; {new Date().getFullYear()} Shifting Pixel. All Labyrinths Reserved.</p>
         </div>
+        {replayViewer}
       </Card>
     );
   }
@@ -775,14 +980,31 @@ const GameScreen: FC<GameScreenProps> = ({
       <Card className="border-none rounded-none shadow-lg flex-grow flex flex-col relative h-full overflow-hidden min-h-0">
         <CardHeader className="absolute top-0 left-0 right-0 z-10 flex flex-row items-center justify-between p-4 bg-background/70 backdrop-blur-sm">
           <CardTitle className="text-primary uppercase text-sm md:text-base tracking-wider flex items-center gap-x-2 md:gap-x-3 flex-wrap">
-            <span>Level {levelId > 0 ? levelId : (parsedData && gameStarted ? '1' : '...')}</span>
+            <span>{requestSegment ? 'Endless' : `Level ${levelId > 0 ? levelId : (parsedData && gameStarted ? '1' : '...')}`}</span>
             <span className="text-foreground/70">|</span>
             <span>Deaths: {deathCount}</span>
             <span className="text-foreground/70">|</span>
+            <span className="flex items-center" title="Run Score">
+              <Star className="w-4 h-4 mr-1 text-foreground/70" /> {displayedScore}
+            </span>
+            <span className="text-foreground/70">|</span>
             <span className="flex items-center">
-              <TimerIcon className="w-4 h-4 mr-1 text-foreground/70" /> {formatTime(elapsedTime)}
+              <TimerIcon className="w-4 h-4 mr-1 text-foreground/70" /> {timeTrial ? formatTrialTime(trialTicks) : formatTime(elapsedTime)}
             </span>
-            {parsedData && parsedData.platforms && parsedData.platforms.length > 0 && (
+            {timeTrial && trialDelta !== null && (
+              <span className={trialDelta < 0 ? 'text-green-400' : trialDelta > 0 ? 'text-accent' : 'text-foreground/70'} title="Difference to Personal Best">
+                {formatTrialDelta(trialDelta)}
+              </span>
+            )}
+            {requestSegment && parsedData && (
+              <>
+                <span className="text-foreground/70">|</span>
+                <span className="flex items-center" title="Distance">
+                    <Footprints className="w-4 h-4 mr-1 text-foreground/70" /> {distance} m
+                </span>
+              </>
+            )}
+            {!requestSegment && parsedData && parsedData.platforms && parsedData.platforms.length > 0 && (
               <>
                 <span className="text-foreground/70">|</span>
                 <span className="flex items-center" title="Total Platforms in Level">
@@ -795,6 +1017,14 @@ const GameScreen: FC<GameScreenProps> = ({
                 </span>
               </>
             )}
+            {seedCode && (
+              <>
+                <span className="text-foreground/70">|</span>
+                <span className="flex items-center" title="Level Seed">
+                    <Hash className="w-4 h-4 mr-1 text-foreground/70" /> {seedCode}
+                </span>
+              </>
+            )}
           </CardTitle>
           <div className="flex items-center gap-1">
             <Dialog open={isPaused} onOpenChange={setIsPaused}>
@@ -809,16 +1039,86 @@ const GameScreen: FC<GameScreenProps> = ({
                         <DialogTitle className="text-2xl text-primary uppercase tracking-wider text-center mb-4">Paused</DialogTitle>
                     </DialogHeader>
                     <div className="grid gap-4 py-4">
-                        <div className="border p-3 rounded-md border-border bg-background/30">
-                             <LevelGeneratorForm
-                                onGenerateRequested={handlePopoverFormSubmit}
-                                initialDifficulty={defaultDifficulty}
-                                onFormSubmitted={() => { setIsPaused(false); }}
+                        <div className="border p-3 rounded-md border-border bg-background/30 space-y-3">
+                            {levelOutput && 'seed' in levelOutput && seedCode ? (
+                              <div className="flex items-center justify-between gap-2">
+                                  <div className="text-xs text-foreground/80">
+                                      <p className="text-primary uppercase text-base tracking-wider">Seed {seedCode}</p>
+                                      <p>
+                                        Difficulty {levelOutput.input.difficultyRating} · {levelOutput.source === 'ai' ? 'AI' : 'Offline'} · {levelOutput.input.levelLength} platforms
+                                      </p>
+                                  </div>
+                                  <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleCopySeed}>
+                                      <Copy className="mr-1 h-4 w-4" /> Copy
+                                  </Button>
+                              </div>
+                            ) : (
+                              <p className="text-primary uppercase text-base tracking-wider text-center">
+                                {requestSegment ? 'Endless Level' : levelOutput?.source === 'link' ? 'Shared Level' : levelOutput?.source === 'editor' ? 'Play-Test' : 'Imported Level'}
+                              </p>
+                            )}
+                            <div className="grid grid-cols-2 gap-2">
+                                <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleExportLevel} disabled={!parsedData || !!requestSegment}>
+                                    <Download className="mr-1 h-4 w-4" /> Export
+                                </Button>
+                                <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleCopyShareLink} disabled={!parsedData || !!requestSegment}>
+                                    <Link2 className="mr-1 h-4 w-4" /> Link
+                                </Button>
+                                {onLevelFileSelected && (
+                                  <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => levelFileInputRef.current?.click()}>
+                                      <Upload className="mr-1 h-4 w-4" /> Import
+                                  </Button>
+                                )}
+                                {!onExit && (
+                                  <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleEditLevel} disabled={!parsedData || !!requestSegment}>
+                                      <PencilRuler className="mr-1 h-4 w-4" /> Edit
+                                  </Button>
+                                )}
+                                <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => replayFileInputRef.current?.click()}>
+                                    <Clapperboard className="mr-1 h-4 w-4" /> Replay
+                                </Button>
+                            </div>
+                            {replayFileInput}
+                            <input
+                                ref={levelFileInputRef}
+                                type="file"
+                                accept={`${LEVEL_FILE_EXTENSION},application/json`}
+                                className="hidden"
+                                onChange={handleLevelFileChange}
                             />
                         </div>
+                        {onManualGenerateRequested && (
+                          <div className="border p-3 rounded-md border-border bg-background/30">
+                               <LevelGeneratorForm
+                                  onGenerateRequested={handlePopoverFormSubmit}
+                                  initialDifficultyRating={defaultDifficultyRating}
+                                  initialSource={defaultSource}
+                                  onFormSubmitted={() => { setIsPaused(false); }}
+                              />
+                          </div>
+                        )}
                         <div className="border p-3 rounded-md border-border bg-background/30">
                             <ControlsGuide />
                         </div>
+                        {onAdaptiveDifficultyChange && (
+                          <div className="border p-3 rounded-md border-border bg-background/30 space-y-2">
+                              <div className="flex items-center justify-between gap-2">
+                                  <Label htmlFor="adaptive-difficulty-switch" className="text-primary uppercase text-base tracking-wider">Adaptive Difficulty</Label>
+                                  <Switch
+                                      id="adaptive-difficulty-switch"
+                                      checked={adaptiveDifficulty}
+                                      onCheckedChange={onAdaptiveDifficultyChange}
+                                  />
+                              </div>
+                              <p className="text-xs text-foreground/80">
+                                {!adaptiveDifficulty
+                                  ? "Levels get harder at a steady pace, however you play."
+                                  : levelAdjustment
+                                    ? `This level: difficulty ${levelAdjustment.rating}, ${describeDifficultyAdjustment(levelAdjustment).toLowerCase()}.`
+                                    : "Each level gets easier or harder depending on how you did on the one before."}
+                              </p>
+                          </div>
+                        )}
                          <div className="border p-3 rounded-md border-border bg-background/30 space-y-3">
                             <Label htmlFor="volume-slider" className="text-primary uppercase text-base tracking-wider text-center block">Volume</Label>
                             <div className="flex items-center gap-2">
@@ -835,7 +1135,16 @@ const GameScreen: FC<GameScreenProps> = ({
                             </div>
                         </div>
                     </div>
-                    <DialogFooter>
+                    <DialogFooter className="flex-col gap-2 sm:flex-col sm:space-x-0">
+                        {onExit && (
+                          <Button
+                              variant="outline"
+                              onClick={() => { setIsPaused(false); onExit(); }}
+                              className="w-full uppercase tracking-wider h-10"
+                          >
+                              {exitLabel}
+                          </Button>
+                        )}
                         <Button
                             onClick={() => setIsPaused(false)}
                             className="w-full bg-accent hover:bg-accent/90 text-accent-foreground uppercase tracking-wider text-lg py-3 h-12"
@@ -852,6 +1161,7 @@ const GameScreen: FC<GameScreenProps> = ({
           <div
             ref={pixiContainerRef}
             className="w-full h-full bg-black/50"
+            style={parsedData?.theme ? { backgroundColor: toCssColor(THEME_BACKGROUND_COLORS[parsedData.theme]) } : undefined}
             aria-label="Game canvas"
             data-ai-hint="gameplay screenshot"
           />
@@ -862,18 +1172,41 @@ const GameScreen: FC<GameScreenProps> = ({
                   <p className="text-lg">Loading Game... Generating Level 1...</p>
               ) : (
                   gameStarted && levelId > 0 ? (
-                      <>
-                          <p className="text-2xl font-bold mb-2">Level {levelId} Complete!</p>
-                          <p className="text-lg">Generating Level {levelId + 1}...</p>
-                      </>
+                      <p className="text-lg">Generating Level {levelId + 1}...</p>
                   ) : (
                        gameStarted ? ( <p className="text-lg">Loading...</p> ) : (  <p className="text-lg">Starting Game...</p> )
                   )
               )}
             </div>
           )}
+          {completion && !isLoading && (
+            <LevelResults
+              levelId={levelId}
+              result={completion.result}
+              previousBest={completion.previousBest}
+              timeTrial={completion.timeTrial}
+              runScore={displayedScore}
+              onContinue={onRequestNewLevel}
+              isNextLevelReady={isNextLevelReady}
+              nextDifficulty={nextDifficulty}
+              onRetry={handleRetryLevel}
+              onExport={handleExportLevel}
+              onWatchReplay={completion.replay ? () => setViewedReplay({ replay: completion.replay!, fromPauseMenu: false }) : undefined}
+              onExit={onExit}
+              exitLabel={exitLabel}
+            />
+          )}
+          {endlessSummary && !isLoading && onRestartEndless && (
+            <EndlessResults
+              result={endlessSummary.result}
+              previousBest={endlessSummary.previousBest}
+              onRunAgain={onRestartEndless}
+              onQuit={onQuitToMenu}
+            />
+          )}
+          {replayViewer}
         </CardContent>
-         {isMobile && gameStarted && !isLoading && !isPaused && (
+         {isMobile && gameStarted && !isLoading && !isPaused && !completion && !endlessSummary && !viewedReplay && (
           <div className="absolute inset-0 pointer-events-none z-30 flex flex-col justify-end">
             <div className="flex justify-between items-end p-4 sm:p-6 md:p-8">
               {/* Bottom Left Controls (Jump, Crouch) */}
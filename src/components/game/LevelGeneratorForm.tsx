@@ -7,6 +7,8 @@ import { useForm, type SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Form,
   FormControl,
@@ -22,46 +24,133 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Accordion, AccordionItem, AccordionTrigger, AccordionContent } from '@/components/ui/accordion';
 import { CardHeader, CardTitle, CardContent } from '@/components/ui/card';
-import type { GenerateLevelInput } from '@/ai/flows/generate-level';
+import type { LevelSource } from '@/types';
+import type { LevelRequest } from '@/app/actions';
+import { parseSeed } from '@/lib/game/random';
+import { DIFFICULTY_PRESETS, MIN_DIFFICULTY_RATING, MAX_DIFFICULTY_RATING, getDifficultyBand, getDifficultyTuning } from '@/lib/game/difficulty';
+import { PLATFORM_TYPES, LEVEL_THEMES } from '@/lib/game/level-schema';
+import {
+  MIN_LEVEL_LENGTH,
+  MAX_LEVEL_LENGTH,
+  MIN_GAP_LIMIT,
+  MAX_GAP_LIMIT,
+  MAX_PLATFORM_TYPE_WEIGHT,
+  VERTICALITY_LEVELS,
+  MAX_DESCRIPTION_LENGTH,
+  type GenerationParameters,
+} from '@/lib/game/generation-input';
 import { Loader2 } from 'lucide-react';
 
 const formSchema = z.object({
-  difficulty: z.enum(['easy', 'medium', 'hard']),
+  difficultyRating: z.number().int().min(MIN_DIFFICULTY_RATING).max(MAX_DIFFICULTY_RATING),
+  source: z.enum(['ai', 'procedural']),
+  // Left empty for a fresh random level.
+  seed: z.string().trim().refine(value => value === '' || parseSeed(value) !== null, {
+    message: 'Seeds are 1-7 letters or digits.',
+  }),
+  // Free text for the AI; the offline generator cannot follow it.
+  description: z.string().max(MAX_DESCRIPTION_LENGTH),
+  // The advanced parameters below are only sent when this is on; otherwise the rating decides.
+  useAdvanced: z.boolean(),
+  levelLength: z.number().int().min(MIN_LEVEL_LENGTH).max(MAX_LEVEL_LENGTH),
+  platformDensity: z.enum(['sparse', 'normal', 'dense']),
+  obstacleDensity: z.enum(['low', 'medium', 'high']),
+  platformTypeWeights: z.record(z.enum(PLATFORM_TYPES), z.number().int().min(0).max(MAX_PLATFORM_TYPE_WEIGHT)),
+  maxGap: z.number().int().min(MIN_GAP_LIMIT).max(MAX_GAP_LIMIT),
+  verticality: z.enum(VERTICALITY_LEVELS),
+  theme: z.enum(LEVEL_THEMES),
 });
 
 type LevelGeneratorFormValues = z.infer<typeof formSchema>;
 
+const PLATFORM_TYPE_LABELS: Record<(typeof PLATFORM_TYPES)[number], string> = {
+  standard: 'Standard',
+  mobile: 'Moving',
+  vertical_mobile: 'Lift',
+  timed: 'Timed',
+  breakable: 'Breakable',
+};
+
+const DEFAULT_PLATFORM_TYPE_WEIGHTS = { standard: 5, mobile: 2, vertical_mobile: 1, timed: 1, breakable: 1 };
+
+// The advanced parameters start out at what the rating would pick.
+const getDefaultValues = (difficultyRating: number, source: LevelSource): LevelGeneratorFormValues => {
+  const [minLength, maxLength] = getDifficultyTuning(difficultyRating).levelLength;
+  return {
+    difficultyRating,
+    source,
+    seed: '',
+    description: '',
+    useAdvanced: false,
+    levelLength: Math.round((minLength + maxLength) / 2),
+    platformDensity: 'normal',
+    obstacleDensity: 'medium',
+    platformTypeWeights: DEFAULT_PLATFORM_TYPE_WEIGHTS,
+    maxGap: MAX_GAP_LIMIT,
+    verticality: 'normal',
+    theme: 'classic',
+  };
+};
+
+const labelClassName = "text-foreground/80 text-xs";
+const selectTriggerClassName = "bg-input border-border focus:ring-ring h-9 text-xs capitalize";
+
 interface LevelGeneratorFormProps {
-  onGenerateRequested: (formData: LevelGeneratorFormValues) => Promise<void>;
-  initialDifficulty?: GenerateLevelInput['difficulty']; 
+  onGenerateRequested: (formData: LevelRequest) => Promise<void>;
+  initialDifficultyRating?: number;
+  initialSource?: LevelSource;
   onFormSubmitted?: () => void; 
 }
 
 const LevelGeneratorForm: FC<LevelGeneratorFormProps> = ({ 
     onGenerateRequested, 
-    initialDifficulty,
+    initialDifficultyRating,
+    initialSource,
     onFormSubmitted 
 }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const form = useForm<LevelGeneratorFormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      difficulty: initialDifficulty || 'medium',
-    },
+    defaultValues: getDefaultValues(initialDifficultyRating ?? DIFFICULTY_PRESETS.medium, initialSource || 'ai'),
   });
+  const useAdvanced = form.watch('useAdvanced');
+  const source = form.watch('source');
 
   useEffect(() => {
-    if (initialDifficulty) {
-      form.reset({ difficulty: initialDifficulty });
+    if (initialDifficultyRating !== undefined) {
+      form.reset(getDefaultValues(initialDifficultyRating, initialSource || 'ai'));
     }
-  }, [initialDifficulty, form]);
+  }, [initialDifficultyRating, initialSource, form]);
 
   const onSubmit: SubmitHandler<LevelGeneratorFormValues> = async (values) => {
     setIsSubmitting(true);
+    const description = values.source === 'ai' ? values.description.trim() : '';
+    const parameters: GenerationParameters = {
+      ...(values.useAdvanced
+        ? {
+          levelLength: values.levelLength,
+          platformDensity: values.platformDensity,
+          obstacleDensity: values.obstacleDensity,
+          platformTypeWeights: values.platformTypeWeights,
+          maxGap: values.maxGap,
+          verticality: values.verticality,
+          theme: values.theme,
+        }
+        : {}),
+      ...(description ? { description } : {}),
+    };
     try {
-      await onGenerateRequested(values); 
+      await onGenerateRequested({
+        difficultyRating: values.difficultyRating,
+        source: values.source,
+        seed: parseSeed(values.seed) ?? undefined,
+        parameters: Object.keys(parameters).length > 0 ? parameters : undefined,
+      });
       if (onFormSubmitted) {
           onFormSubmitted(); 
       }
@@ -82,27 +171,266 @@ const LevelGeneratorForm: FC<LevelGeneratorFormProps> = ({
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3">
             <FormField
               control={form.control}
-              name="difficulty"
+              name="difficultyRating"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel className="text-foreground/80 text-xs sr-only">Difficulty</FormLabel>
+                  <div className="flex items-center justify-between">
+                    <FormLabel className="text-foreground/80 text-xs">Difficulty</FormLabel>
+                    <span className="text-xs text-foreground/80">
+                      {field.value} <span className="capitalize text-foreground/60">({getDifficultyBand(field.value)})</span>
+                    </span>
+                  </div>
+                  <FormControl>
+                    <Slider
+                      min={MIN_DIFFICULTY_RATING}
+                      max={MAX_DIFFICULTY_RATING}
+                      step={1}
+                      value={[field.value]}
+                      onValueChange={(value) => field.onChange(value[0])}
+                      aria-label="Difficulty rating"
+                    />
+                  </FormControl>
+                  <FormMessage className="text-xs"/>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="source"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-foreground/80 text-xs sr-only">Generator</FormLabel>
                   <Select onValueChange={field.onChange} defaultValue={field.value}>
                     <FormControl>
                       <SelectTrigger className="bg-input border-border focus:ring-ring h-9 text-xs">
-                        <SelectValue placeholder="Select difficulty" />
+                        <SelectValue placeholder="Select generator" />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent className="bg-popover border-border">
-                      <SelectItem value="easy">Easy</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="hard">Hard</SelectItem>
+                      <SelectItem value="ai">AI</SelectItem>
+                      <SelectItem value="procedural">Offline</SelectItem>
                     </SelectContent>
                   </Select>
                   <FormMessage className="text-xs"/>
                 </FormItem>
               )}
             />
-            
+            <FormField
+              control={form.control}
+              name="seed"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-foreground/80 text-xs sr-only">Seed</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder="Seed (optional)"
+                      autoComplete="off"
+                      className="bg-input border-border focus-visible:ring-ring h-9 text-xs uppercase"
+                    />
+                  </FormControl>
+                  <FormMessage className="text-xs"/>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-foreground/80 text-xs sr-only">Describe your level</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      placeholder={source === 'ai' ? 'Describe your level (optional), e.g. "a tower of vertical platforms over spikes"' : 'Level descriptions need the AI generator'}
+                      maxLength={MAX_DESCRIPTION_LENGTH}
+                      disabled={source !== 'ai'}
+                      className="bg-input border-border focus-visible:ring-ring min-h-[60px] text-xs"
+                    />
+                  </FormControl>
+                  <FormMessage className="text-xs"/>
+                </FormItem>
+              )}
+            />
+            <Accordion type="single" collapsible>
+              <AccordionItem value="advanced" className="border-border">
+                <AccordionTrigger className="py-2 text-xs text-foreground/80 hover:no-underline">Advanced</AccordionTrigger>
+                <AccordionContent className="space-y-3 pb-2">
+                  <FormField
+                    control={form.control}
+                    name="useAdvanced"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between space-y-0">
+                        <FormLabel className={labelClassName}>Custom parameters</FormLabel>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="levelLength"
+                    render={({ field }) => (
+                      <FormItem>
+                        <div className="flex items-center justify-between">
+                          <FormLabel className={labelClassName}>Length</FormLabel>
+                          <span className="text-xs text-foreground/80">{field.value} platforms</span>
+                        </div>
+                        <FormControl>
+                          <Slider
+                            min={MIN_LEVEL_LENGTH}
+                            max={MAX_LEVEL_LENGTH}
+                            step={1}
+                            value={[field.value]}
+                            onValueChange={(value) => field.onChange(value[0])}
+                            disabled={!useAdvanced}
+                            aria-label="Level length"
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <FormField
+                      control={form.control}
+                      name="platformDensity"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className={labelClassName}>Platforms</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value} disabled={!useAdvanced}>
+                            <FormControl>
+                              <SelectTrigger className={selectTriggerClassName}>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent className="bg-popover border-border">
+                              <SelectItem value="sparse">Sparse</SelectItem>
+                              <SelectItem value="normal">Normal</SelectItem>
+                              <SelectItem value="dense">Dense</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="obstacleDensity"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className={labelClassName}>Obstacles</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value} disabled={!useAdvanced}>
+                            <FormControl>
+                              <SelectTrigger className={selectTriggerClassName}>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent className="bg-popover border-border">
+                              <SelectItem value="low">Low</SelectItem>
+                              <SelectItem value="medium">Medium</SelectItem>
+                              <SelectItem value="high">High</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="verticality"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className={labelClassName}>Verticality</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value} disabled={!useAdvanced}>
+                            <FormControl>
+                              <SelectTrigger className={selectTriggerClassName}>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent className="bg-popover border-border">
+                              {VERTICALITY_LEVELS.map(level => (
+                                <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="theme"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className={labelClassName}>Theme</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value} disabled={!useAdvanced}>
+                            <FormControl>
+                              <SelectTrigger className={selectTriggerClassName}>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent className="bg-popover border-border">
+                              {LEVEL_THEMES.map(theme => (
+                                <SelectItem key={theme} value={theme} className="capitalize">{theme}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="maxGap"
+                    render={({ field }) => (
+                      <FormItem>
+                        <div className="flex items-center justify-between">
+                          <FormLabel className={labelClassName}>Max gap</FormLabel>
+                          <span className="text-xs text-foreground/80">{field.value >= MAX_GAP_LIMIT ? 'Jump limit' : `${field.value} units`}</span>
+                        </div>
+                        <FormControl>
+                          <Slider
+                            min={MIN_GAP_LIMIT}
+                            max={MAX_GAP_LIMIT}
+                            step={4}
+                            value={[field.value]}
+                            onValueChange={(value) => field.onChange(value[0])}
+                            disabled={!useAdvanced}
+                            aria-label="Maximum gap"
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <div className="space-y-2">
+                    <p className={labelClassName}>Platform types (0 leaves a type out)</p>
+                    {PLATFORM_TYPES.map(type => (
+                      <FormField
+                        key={type}
+                        control={form.control}
+                        name={`platformTypeWeights.${type}`}
+                        render={({ field }) => (
+                          <FormItem className="grid grid-cols-[5rem_1fr_1.5rem] items-center gap-2 space-y-0">
+                            <FormLabel className={labelClassName}>{PLATFORM_TYPE_LABELS[type]}</FormLabel>
+                            <FormControl>
+                              <Slider
+                                min={0}
+                                max={MAX_PLATFORM_TYPE_WEIGHT}
+                                step={1}
+                                value={[field.value ?? 0]}
+                                onValueChange={(value) => field.onChange(value[0])}
+                                disabled={!useAdvanced}
+                                aria-label={`${PLATFORM_TYPE_LABELS[type]} platform weight`}
+                              />
+                            </FormControl>
+                            <span className="text-xs text-foreground/80 text-right">{field.value ?? 0}</span>
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                </AccordionContent>
+              </AccordionItem>
+            </Accordion>
+
             <Button type="submit" className="w-full bg-primary hover:bg-primary/90 text-primary-foreground uppercase tracking-wider text-sm py-2 h-9" disabled={isSubmitting}>
               {isSubmitting ? (
                 <>
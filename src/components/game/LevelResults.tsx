@@ -0,0 +1,202 @@
+import type { FC, ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import type { LevelResult } from '@/lib/game/scoring';
+import type { PersonalBest, TimeTrialBest } from '@/lib/game/save-game';
+import { compareSplits, formatTrialTime, formatTrialDelta, type TimeTrialRun } from '@/lib/game/time-trial';
+import { describeDifficultyAdjustment, type DifficultyAdjustment } from '@/lib/game/adaptive-difficulty';
+import { RotateCcw, ArrowRight, Download, Loader2, Trophy, Clapperboard } from 'lucide-react';
+
+interface LevelResultsProps {
+  levelId: number;
+  result: LevelResult;
+  // The personal best before this attempt; null the first time a level is finished.
+  previousBest: PersonalBest | null;
+  // Run score including this level.
+  runScore: number;
+  // Omitted when there is no next level to continue to (e.g. play-testing).
+  onContinue?: () => void;
+  isNextLevelReady?: boolean;
+  // The next level's rating when it adapts to this result.
+  nextDifficulty?: DifficultyAdjustment | null;
+  // Set in time-trial mode: the run's exact time and splits, and the best before it.
+  timeTrial?: { run: TimeTrialRun; previousBest: TimeTrialBest | null };
+  onRetry: () => void;
+  onExport: () => void;
+  // Opens the replay of this attempt.
+  onWatchReplay?: () => void;
+  onExit?: () => void;
+  exitLabel?: string;
+}
+
+export const formatDuration = (totalSeconds: number): string => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds - minutes * 60;
+  return `${String(minutes).padStart(2, '0')}:${seconds.toFixed(1).padStart(4, '0')}`;
+};
+
+const formatDelta = (delta: number, unit: string = ''): string => `${delta > 0 ? '+' : ''}${delta}${unit}`;
+
+export const StatRow: FC<{ label: string; value: ReactNode; comparison?: ReactNode }> = ({ label, value, comparison }) => (
+  <div className="flex items-baseline justify-between gap-4 py-1 border-b border-border/50">
+    <span className="text-foreground/70">{label}</span>
+    <span className="text-right">
+      {value}
+      {comparison && <span className="ml-2 text-xs">{comparison}</span>}
+    </span>
+  </div>
+);
+
+interface ComparisonProps {
+  value: number;
+  best: number | undefined;
+  // Lower is better unless set.
+  higherIsBetter?: boolean;
+  formatValue?: (value: number) => string;
+  formatChange?: (delta: number) => string;
+  // Shown when there is no best yet.
+  firstLabel?: string;
+}
+
+export const Comparison: FC<ComparisonProps> = ({
+  value,
+  best,
+  higherIsBetter = false,
+  formatValue = String,
+  formatChange = delta => formatDelta(delta),
+  firstLabel = 'First clear',
+}) => {
+  if (best === undefined) return <span className="text-accent">{firstLabel}</span>;
+  const delta = value - best;
+  const improved = higherIsBetter ? delta > 0 : delta < 0;
+  if (improved) return <span className="text-green-400">New best ({formatChange(delta)})</span>;
+  return <span className="text-foreground/60">Best {formatValue(best)}</span>;
+};
+
+const LevelResults: FC<LevelResultsProps> = ({
+  levelId,
+  result,
+  previousBest,
+  runScore,
+  onContinue,
+  isNextLevelReady,
+  nextDifficulty,
+  timeTrial,
+  onRetry,
+  onExport,
+  onWatchReplay,
+  onExit,
+  exitLabel = 'Exit',
+}) => {
+  const { score } = result;
+
+  return (
+    <div className="absolute inset-0 bg-background/85 flex items-center justify-center z-20 p-4 overflow-y-auto">
+      <div className="w-full max-w-sm space-y-4 text-sm">
+        <div className="text-center">
+          <Trophy className="w-10 h-10 mx-auto text-accent mb-2" />
+          <p className="text-2xl font-bold text-primary uppercase tracking-wider">Level {levelId > 0 ? levelId : 1} Complete!</p>
+        </div>
+
+        <div>
+          {timeTrial ? (
+            <>
+              <StatRow
+                label="Time"
+                value={formatTrialTime(timeTrial.run.ticks)}
+                comparison={
+                  <Comparison
+                    value={timeTrial.run.ticks}
+                    best={timeTrial.previousBest?.ticks}
+                    formatValue={formatTrialTime}
+                    formatChange={formatTrialDelta}
+                  />
+                }
+              />
+              {compareSplits(timeTrial.run, timeTrial.previousBest).map((split, index) => (
+                <StatRow
+                  key={split.checkpoint}
+                  label={`Split ${index + 1}`}
+                  value={formatTrialTime(split.ticks)}
+                  comparison={split.delta !== null && (
+                    <span className={split.delta < 0 ? 'text-green-400' : split.delta > 0 ? 'text-accent' : 'text-foreground/60'}>
+                      {formatTrialDelta(split.delta)}
+                    </span>
+                  )}
+                />
+              ))}
+            </>
+          ) : (
+            <StatRow
+              label="Time"
+              value={formatDuration(result.elapsedSeconds)}
+              comparison={
+                <Comparison
+                  value={result.elapsedSeconds}
+                  best={previousBest?.bestTime}
+                  formatValue={formatDuration}
+                  formatChange={delta => formatDelta(Number(delta.toFixed(1)), 's')}
+                />
+              }
+            />
+          )}
+          <StatRow
+            label="Deaths"
+            value={result.deaths}
+            comparison={<Comparison value={result.deaths} best={previousBest?.fewestDeaths} />}
+          />
+          <StatRow label="Collectibles" value={`${result.collected}/${result.totalCollectibles}`} />
+          <StatRow label="Jumps" value={result.jumps} />
+          <StatRow label="Furthest Platform" value={`${result.furthestPlatform}/${result.totalPlatforms}`} />
+          <StatRow
+            label="Level Score"
+            value={score.total}
+            comparison={<Comparison value={score.total} best={previousBest?.bestScore} higherIsBetter />}
+          />
+          <p className="pt-1 text-xs text-foreground/60 text-right">
+            {score.collectibles} collectibles + {score.completion} completion + {score.time} time{score.deaths < 0 ? ` − ${-score.deaths} deaths` : ''}
+          </p>
+          <StatRow label="Run Score" value={runScore} />
+          {onContinue && nextDifficulty && (
+            <StatRow
+              label="Next Difficulty"
+              value={nextDifficulty.rating}
+              comparison={
+                <span className={nextDifficulty.change < 0 ? 'text-green-400' : nextDifficulty.change > 0 ? 'text-accent' : 'text-foreground/60'}>
+                  {describeDifficultyAdjustment(nextDifficulty)}
+                </span>
+              }
+            />
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" onClick={onRetry}>
+            <RotateCcw className="mr-2 h-4 w-4" /> Retry
+          </Button>
+          <Button variant="outline" onClick={onExport}>
+            <Download className="mr-2 h-4 w-4" /> Export
+          </Button>
+          {onWatchReplay && (
+            <Button variant="outline" className="col-span-2" onClick={onWatchReplay}>
+              <Clapperboard className="mr-2 h-4 w-4" /> Watch Replay
+            </Button>
+          )}
+          {onContinue && (
+            <Button className="col-span-2 bg-accent hover:bg-accent/90 text-accent-foreground" onClick={onContinue}>
+              {isNextLevelReady === false ? (
+                <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Preparing Level {levelId + 1}...</>
+              ) : (
+                <>Continue to Level {levelId + 1} <ArrowRight className="ml-2 h-4 w-4" /></>
+              )}
+            </Button>
+          )}
+          {onExit && (
+            <Button variant="secondary" className="col-span-2" onClick={onExit}>{exitLabel}</Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelResults;
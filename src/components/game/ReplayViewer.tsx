@@ -0,0 +1,229 @@
+"use client";
+
+import type { FC } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import * as PIXI from 'pixi.js';
+import { createReplayPlayer, seekReplay, serializeReplayFile, REPLAY_FILE_EXTENSION, type Replay, type ReplayPlayer } from '@/lib/game/replay';
+import type { WorldEvent } from '@/lib/game/engine';
+import { createFixedStepClock, consumeSteps, getInterpolationAlpha, lerp } from '@/lib/game/fixed-step';
+import { formatTrialTime } from '@/lib/game/time-trial';
+import { formatSeed } from '@/lib/game/random';
+import { LOGICAL_GAME_WIDTH, LOGICAL_GAME_HEIGHT } from '@/lib/game/constants';
+import { PLAYER_COLOR, THEME_BACKGROUND_COLORS, toCssColor } from '@/lib/game/palette';
+import { drawGoal, addEntitySprites, syncEntitySprites, redrawCheckpoints, type EntitySprites } from '@/components/game/world-sprites';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PlayIcon, PauseIcon, RotateCcw, Download, X } from 'lucide-react';
+
+const PLAYBACK_SPEEDS = ['0.25', '0.5', '1', '2', '4'];
+
+interface ReplayViewerProps {
+  replay: Replay;
+  onClose: () => void;
+}
+
+interface ReplaySprites extends EntitySprites {
+  goal: PIXI.Graphics | null;
+  player: PIXI.Graphics;
+}
+
+// Re-simulates a replay from its level and recorded input, with playback controls.
+const ReplayViewer: FC<ReplayViewerProps> = ({ replay, onClose }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null);
+  const spritesRef = useRef<ReplaySprites | null>(null);
+  const clockRef = useRef(createFixedStepClock());
+  // Read by the ticker, which is added once.
+  const isPlayingRef = useRef(true);
+  const speedRef = useRef(1);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState('1');
+  const [tick, setTick] = useState(0);
+  const totalTicks = replay.recording.ticks;
+
+  useEffect(() => { isPlayingRef.current = isPlaying; }, [isPlaying]);
+  useEffect(() => { speedRef.current = Number(speed); }, [speed]);
+
+  useEffect(() => {
+    const containerElement = containerRef.current;
+    if (!containerElement) return;
+    const replayPlayer = createReplayPlayer(replay);
+    replayPlayerRef.current = replayPlayer;
+    clockRef.current = createFixedStepClock();
+    setTick(0);
+    setIsPlaying(true);
+
+    const app = new PIXI.Application();
+    let initialized = false;
+    let disposed = false;
+    let resizeObserver: ResizeObserver | null = null;
+
+    (async () => {
+      await app.init({ backgroundAlpha: 0, resizeTo: containerElement, antialias: false });
+      initialized = true;
+      if (disposed) {
+        app.destroy(true, { children: true });
+        return;
+      }
+      containerElement.appendChild(app.view as HTMLCanvasElement);
+
+      const worldContainer = new PIXI.Container();
+      app.stage.addChild(worldContainer);
+      const world = replayPlayer.world;
+      const entitySprites: EntitySprites = { platforms: [], obstacles: [], collectibles: [] };
+      addEntitySprites(worldContainer, world, entitySprites);
+      let goal: PIXI.Graphics | null = null;
+      if (world.goal) {
+        goal = new PIXI.Graphics();
+        drawGoal(goal, world.goal);
+        worldContainer.addChild(goal);
+      }
+      const player = new PIXI.Graphics();
+      worldContainer.addChild(player);
+      spritesRef.current = { ...entitySprites, goal, player };
+
+      const handleResize = () => {
+        if (containerElement.clientWidth <= 0 || containerElement.clientHeight <= 0) return;
+        const scale = Math.min(containerElement.clientWidth / LOGICAL_GAME_WIDTH, containerElement.clientHeight / LOGICAL_GAME_HEIGHT);
+        worldContainer.scale.set(Math.max(0.001, scale));
+        worldContainer.x = app.screen.width / 2;
+        worldContainer.y = app.screen.height / 2;
+      };
+      handleResize();
+      resizeObserver = new ResizeObserver(handleResize);
+      resizeObserver.observe(containerElement);
+
+      app.ticker.add(ticker => {
+        if (isPlayingRef.current) {
+          const steps = consumeSteps(clockRef.current, ticker.deltaMS * speedRef.current);
+          if (steps > 0) {
+            showEvents(seekReplay(replayPlayer, replayPlayer.world.tick + steps));
+            setTick(replayPlayer.world.tick);
+            if (replayPlayer.world.tick >= totalTicks) setIsPlaying(false);
+          }
+        }
+        renderWorld(worldContainer, isPlayingRef.current ? getInterpolationAlpha(clockRef.current) : 1);
+      });
+    })();
+
+    return () => {
+      disposed = true;
+      resizeObserver?.disconnect();
+      if (initialized) app.destroy(true, { children: true });
+      replayPlayerRef.current = null;
+      spritesRef.current = null;
+    };
+    // showEvents and renderWorld only read refs.
+  }, [replay, totalTicks]);
+
+  const showEvents = (events: WorldEvent[]) => {
+    const world = replayPlayerRef.current?.world;
+    const sprites = spritesRef.current;
+    if (world && sprites && events.some(event => event.type === 'checkpoint')) redrawCheckpoints(world, sprites.platforms);
+  };
+
+  const renderWorld = (worldContainer: PIXI.Container, alpha: number) => {
+    const world = replayPlayerRef.current?.world;
+    const sprites = spritesRef.current;
+    if (!world || !sprites) return;
+    syncEntitySprites(world, sprites, alpha);
+    if (world.goal && sprites.goal) {
+      sprites.goal.x = lerp(world.goal.prevX, world.goal.x, alpha);
+      sprites.goal.y = lerp(world.goal.prevY, world.goal.y, alpha);
+    }
+    const { player } = world;
+    sprites.player.clear();
+    sprites.player.rect(0, 0, player.width, player.height).fill(PLAYER_COLOR);
+    sprites.player.x = lerp(player.prevX, player.x, alpha);
+    sprites.player.y = lerp(player.prevY, player.y, alpha);
+    worldContainer.pivot.x = sprites.player.x + player.width / 2;
+    worldContainer.pivot.y = sprites.player.y + player.height / 2;
+  };
+
+  // Scrubbing re-simulates from the start when going back, so every frame shows exactly what happened.
+  const handleSeek = (target: number) => {
+    const replayPlayer = replayPlayerRef.current;
+    const sprites = spritesRef.current;
+    if (!replayPlayer) return;
+    seekReplay(replayPlayer, target);
+    if (sprites) redrawCheckpoints(replayPlayer.world, sprites.platforms);
+    clockRef.current = createFixedStepClock();
+    setTick(replayPlayer.world.tick);
+  };
+
+  const handleTogglePlay = () => {
+    if (!isPlaying && tick >= totalTicks) handleSeek(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeReplayFile(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `shifting-pixel-${replay.seed !== undefined ? formatSeed(replay.seed) : 'level'}${REPLAY_FILE_EXTENSION}`.toLowerCase();
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex flex-col bg-background">
+      <div className="flex items-center justify-between p-3 border-b border-border">
+        <p className="text-primary uppercase text-sm tracking-wider">
+          Replay{replay.seed !== undefined ? ` · Seed ${formatSeed(replay.seed)}` : ''}
+        </p>
+        <Button variant="ghost" size="icon" onClick={onClose}>
+          <X className="h-5 w-5" />
+          <span className="sr-only">Close Replay</span>
+        </Button>
+      </div>
+      <div
+        ref={containerRef}
+        className="flex-grow min-h-0 bg-black/50"
+        style={replay.level.theme ? { backgroundColor: toCssColor(THEME_BACKGROUND_COLORS[replay.level.theme]) } : undefined}
+        aria-label="Replay canvas"
+      />
+      <div className="p-3 border-t border-border space-y-3">
+        <Slider
+          value={[tick]}
+          min={0}
+          max={Math.max(totalTicks, 1)}
+          step={1}
+          onValueChange={([value]) => handleSeek(value)}
+          aria-label="Replay position"
+        />
+        <div className="flex items-center gap-2 text-sm">
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={handleTogglePlay}>
+            {isPlaying ? <PauseIcon className="h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
+            <span className="sr-only">{isPlaying ? 'Pause' : 'Play'}</span>
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => handleSeek(0)}>
+            <RotateCcw className="h-4 w-4" />
+            <span className="sr-only">Back to Start</span>
+          </Button>
+          <span className="font-mono text-xs text-foreground/80">
+            {formatTrialTime(tick)} / {formatTrialTime(totalTicks)}
+          </span>
+          <div className="ml-auto flex items-center gap-2">
+            <Select value={speed} onValueChange={setSpeed}>
+              <SelectTrigger className="h-8 w-20 text-xs bg-input border-border" aria-label="Playback speed">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover border-border">
+                {PLAYBACK_SPEEDS.map(value => (
+                  <SelectItem key={value} value={value}>{value}×</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleExport}>
+              <Download className="mr-1 h-4 w-4" /> Export
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,151 @@
+/**
+ * @fileOverview PixiJS sprites for the entities of a game world.
+ *
+ * Shared by the game screen and the replay viewer. Sprite lists are index-aligned with
+ * the world's entity lists, and sprites are drawn at their origin and moved into place.
+ *
+ * - drawPlatform / drawGoal / drawCollectible / drawObstacle - Draw one entity.
+ * - addEntitySprites / removeEntitySprites - Keep sprite lists in step with the world.
+ * - syncEntitySprites - Moves, shows and hides sprites to match the world.
+ * - redrawCheckpoints - Updates checkpoint flags after the respawn point changed.
+ */
+
+import * as PIXI from 'pixi.js';
+import type { World, PlatformObject, ObstacleObject, GoalObject, CollectibleObject, EntityCounts } from '@/lib/game/engine';
+import { DEFAULT_PLATFORM_HEIGHT } from '@/lib/game/constants';
+import { lerp } from '@/lib/game/fixed-step';
+import { PLATFORM_COLORS, CHECKPOINT_POLE_COLOR, CHECKPOINT_FLAG_COLOR, CHECKPOINT_ACTIVE_FLAG_COLOR, GOAL_POLE_COLOR, GOAL_FLAG_COLORS, COLLECTIBLE_COLORS, OBSTACLE_COLORS, OBSTACLE_COLOR_DEFAULT, ENEMY_EYE_COLOR } from '@/lib/game/palette';
+
+const CHECKPOINT_FLAG_HEIGHT = 14;
+
+// Draws a platform at the sprite's origin, with a flag on checkpoints that turns green once active.
+export const drawPlatform = (sprite: PIXI.Graphics, platform: PlatformObject, isActiveCheckpoint: boolean) => {
+  sprite.clear();
+  sprite.rect(0, 0, platform.width, DEFAULT_PLATFORM_HEIGHT).fill(PLATFORM_COLORS[platform.type as keyof typeof PLATFORM_COLORS] ?? PLATFORM_COLORS.standard);
+  if (platform.isCheckpoint) {
+    const flagColor = isActiveCheckpoint ? CHECKPOINT_ACTIVE_FLAG_COLOR : CHECKPOINT_FLAG_COLOR;
+    sprite.rect(4, -CHECKPOINT_FLAG_HEIGHT, 2, CHECKPOINT_FLAG_HEIGHT).fill(CHECKPOINT_POLE_COLOR);
+    sprite.poly([6, -CHECKPOINT_FLAG_HEIGHT, 14, -CHECKPOINT_FLAG_HEIGHT + 4, 6, -CHECKPOINT_FLAG_HEIGHT + 8]).fill(flagColor);
+  }
+};
+
+// Draws the goal flag at the sprite's origin: a pole with a chequered flag at the top.
+export const drawGoal = (sprite: PIXI.Graphics, goal: GoalObject) => {
+  const cellWidth = (goal.width - 2) / 2;
+  const cellHeight = 4;
+  sprite.clear();
+  sprite.rect(0, 0, 2, goal.height).fill(GOAL_POLE_COLOR);
+  for (let row = 0; row < 2; row++) {
+    for (let column = 0; column < 2; column++) {
+      sprite.rect(2 + column * cellWidth, row * cellHeight, cellWidth, cellHeight).fill(GOAL_FLAG_COLORS[(row + column) % 2]);
+    }
+  }
+};
+
+// Draws a collectible at the sprite's origin: a round coin or a diamond-shaped gem.
+export const drawCollectible = (sprite: PIXI.Graphics, collectible: CollectibleObject) => {
+  const { width, height } = collectible;
+  const color = COLLECTIBLE_COLORS[collectible.type as keyof typeof COLLECTIBLE_COLORS] ?? COLLECTIBLE_COLORS.coin;
+  sprite.clear();
+  if (collectible.type === 'gem') {
+    sprite.poly([width / 2, 0, width, height / 2, width / 2, height, 0, height / 2]).fill(color);
+  } else {
+    sprite.circle(width / 2, height / 2, width / 2).fill(color);
+  }
+};
+
+export const drawObstacle = (sprite: PIXI.Graphics, obstacle: ObstacleObject) => {
+  const { width, height } = obstacle;
+  switch (obstacle.type) {
+    case 'spikes': {
+      const spikeCount = Math.max(1, Math.round(width / Math.max(height, 1)));
+      const spikeWidth = width / spikeCount;
+      for (let i = 0; i < spikeCount; i++) {
+        const left = i * spikeWidth;
+        sprite.poly([left, height, left + spikeWidth / 2, 0, left + spikeWidth, height]).fill(OBSTACLE_COLORS.spikes);
+      }
+      break;
+    }
+    case 'enemy': {
+      const eyeSize = Math.max(1, Math.floor(width / 6));
+      sprite.rect(0, 0, width, height).fill(OBSTACLE_COLORS.enemy);
+      sprite.rect(width * 0.2, height * 0.25, eyeSize, eyeSize).fill(ENEMY_EYE_COLOR);
+      sprite.rect(width * 0.8 - eyeSize, height * 0.25, eyeSize, eyeSize).fill(ENEMY_EYE_COLOR);
+      break;
+    }
+    default:
+      sprite.rect(0, 0, width, height).fill(OBSTACLE_COLOR_DEFAULT);
+  }
+};
+
+export interface EntitySprites {
+  platforms: PIXI.Graphics[];
+  obstacles: PIXI.Graphics[];
+  collectibles: PIXI.Graphics[];
+}
+
+// Creates sprites for the world's entities that have none yet, keeping each sprite list
+// index-aligned with its entities. New sprites go below `below` when it is given.
+export const addEntitySprites = (container: PIXI.Container, world: World, sprites: EntitySprites, below?: PIXI.Container) => {
+  const add = (sprite: PIXI.Graphics, position: { x: number; y: number }, list: PIXI.Graphics[]) => {
+    sprite.x = position.x;
+    sprite.y = position.y;
+    if (below) container.addChildAt(sprite, container.getChildIndex(below));
+    else container.addChild(sprite);
+    list.push(sprite);
+  };
+  world.platforms.slice(sprites.platforms.length).forEach(platform => {
+    const sprite = new PIXI.Graphics();
+    drawPlatform(sprite, platform, platform === world.respawnPlatform);
+    add(sprite, platform, sprites.platforms);
+  });
+  world.obstacles.slice(sprites.obstacles.length).forEach(obstacle => {
+    const sprite = new PIXI.Graphics();
+    drawObstacle(sprite, obstacle);
+    add(sprite, obstacle, sprites.obstacles);
+  });
+  world.collectibles.slice(sprites.collectibles.length).forEach(collectible => {
+    const sprite = new PIXI.Graphics();
+    drawCollectible(sprite, collectible);
+    add(sprite, collectible, sprites.collectibles);
+  });
+};
+
+// Destroys the sprites of the first `counts` entities, matching removeLeadingEntities.
+export const removeEntitySprites = (sprites: EntitySprites, counts: EntityCounts) => {
+  sprites.platforms.splice(0, counts.platforms).forEach(sprite => sprite.destroy());
+  sprites.obstacles.splice(0, counts.obstacles).forEach(sprite => sprite.destroy());
+  sprites.collectibles.splice(0, counts.collectibles).forEach(sprite => sprite.destroy());
+};
+
+/**
+ * Moves the sprites to their entities' positions, interpolated by `alpha` between the
+ * last two ticks, and hides those of vanished platforms, inactive obstacles and
+ * collectibles already picked up.
+ */
+export const syncEntitySprites = (world: World, sprites: EntitySprites, alpha: number) => {
+  world.platforms.forEach((pObj, index) => {
+    const sprite = sprites.platforms[index];
+    if (!sprite) return;
+    sprite.x = lerp(pObj.prevX, pObj.x, alpha); sprite.y = lerp(pObj.prevY, pObj.y, alpha);
+    if (pObj.type === 'timed') sprite.visible = !!pObj.isVisible;
+    if (pObj.type === 'breakable') sprite.visible = !pObj.isBroken;
+  });
+  world.obstacles.forEach((obstacle, index) => {
+    const sprite = sprites.obstacles[index];
+    if (!sprite) return;
+    sprite.x = lerp(obstacle.prevX, obstacle.x, alpha); sprite.y = lerp(obstacle.prevY, obstacle.y, alpha);
+    sprite.visible = obstacle.isActive;
+  });
+  world.collectibles.forEach((collectible, index) => {
+    const sprite = sprites.collectibles[index];
+    if (sprite) sprite.visible = !collectible.collected;
+  });
+};
+
+export const redrawCheckpoints = (world: World, platformSprites: PIXI.Graphics[]) => {
+  world.platforms.forEach((platform, index) => {
+    const sprite = platformSprites[index];
+    if (sprite && platform.isCheckpoint) drawPlatform(sprite, platform, platform === world.respawnPlatform);
+  });
+};
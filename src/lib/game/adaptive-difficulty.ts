@@ -0,0 +1,112 @@
+/**
+ * @fileOverview Adapts the difficulty of a run to how the player is doing.
+ *
+ * Each finished level's telemetry (deaths, time taken and where the deaths happened)
+ * nudges the next level's rating away from the usual progression: players who keep
+ * dying or crawl through a level get a gentler next level, while clean, fast clears
+ * push the rating up sooner. Deaths piled up after the same platform count for less,
+ * as one nasty jump says less about the player than deaths spread over the level.
+ *
+ * - getDifficultyAdjustment - The next level's rating, adapted to a finished level.
+ * - describeDifficultyAdjustment - A short explanation of an adjustment for the player.
+ * - getPlayerPerformance - Summarises a finished level for the level generator.
+ */
+
+import type { GenerateLevelInput } from '@/ai/flows/generate-level';
+import type { LevelResult, DeathLocation } from '@/lib/game/scoring';
+import { clampDifficultyRating, getNextDifficultyRating } from '@/lib/game/difficulty';
+
+export type LevelTelemetry = Pick<LevelResult, 'deaths' | 'elapsedSeconds' | 'totalPlatforms' | 'deathLocations'>;
+export type PlayerPerformance = NonNullable<GenerateLevelInput['playerPerformance']>;
+
+export interface DifficultyAdjustment {
+  // The adapted rating of the next level.
+  rating: number;
+  // How far the rating was moved from the usual progression.
+  change: number;
+  reasons: string[];
+}
+
+// Rough time a level should take per platform, for judging fast and slow clears.
+const PAR_SECONDS_PER_PLATFORM = 1.5;
+const FAST_TIME_RATIO = 0.6;
+const SLOW_TIME_RATIO = 2;
+const TIME_POINTS = 3;
+// A level may cost one death per this many platforms (and at least one) before the next is eased.
+const PLATFORMS_PER_EXPECTED_DEATH = 30;
+const POINTS_PER_EXTRA_DEATH = 3;
+const FLAWLESS_POINTS = 3;
+// Deaths after the same platform beyond this many count half.
+const HOTSPOT_FULL_DEATHS = 2;
+const MAX_CHANGE = 15;
+
+const getTimeRatio = ({ elapsedSeconds, totalPlatforms }: LevelTelemetry): number =>
+  elapsedSeconds / (Math.max(totalPlatforms, 1) * PAR_SECONDS_PER_PLATFORM);
+
+const countDeathsByPlatform = (locations: DeathLocation[]): Map<number, number> => {
+  const counts = new Map<number, number>();
+  locations.forEach(({ platform }) => counts.set(platform, (counts.get(platform) ?? 0) + 1));
+  return counts;
+};
+
+// Deaths with the ones piled up after a single platform weighed down.
+function getWeightedDeaths(telemetry: LevelTelemetry): number {
+  const counts = countDeathsByPlatform(telemetry.deathLocations);
+  let weighted = telemetry.deaths - telemetry.deathLocations.length; // Deaths without a location count fully.
+  counts.forEach(count => {
+    weighted += Math.min(count, HOTSPOT_FULL_DEATHS) + Math.max(0, count - HOTSPOT_FULL_DEATHS) / 2;
+  });
+  return weighted;
+}
+
+export function getDifficultyAdjustment(rating: number, telemetry: LevelTelemetry): DifficultyAdjustment {
+  const reasons: string[] = [];
+  let change = 0;
+
+  const expectedDeaths = Math.max(1, Math.round(telemetry.totalPlatforms / PLATFORMS_PER_EXPECTED_DEATH));
+  const extraDeaths = getWeightedDeaths(telemetry) - expectedDeaths;
+  if (telemetry.deaths === 0) {
+    change += FLAWLESS_POINTS;
+    reasons.push('no deaths');
+  } else if (extraDeaths > 0) {
+    change -= Math.round(extraDeaths * POINTS_PER_EXTRA_DEATH);
+    reasons.push(`${telemetry.deaths} deaths`);
+  }
+
+  const timeRatio = getTimeRatio(telemetry);
+  if (timeRatio <= FAST_TIME_RATIO) {
+    change += TIME_POINTS;
+    reasons.push('fast clear');
+  } else if (timeRatio >= SLOW_TIME_RATIO) {
+    change -= TIME_POINTS;
+    reasons.push('slow clear');
+  }
+
+  const usual = getNextDifficultyRating(rating);
+  const adapted = clampDifficultyRating(usual + Math.max(-MAX_CHANGE, Math.min(MAX_CHANGE, change)));
+  return { rating: adapted, change: adapted - usual, reasons };
+}
+
+export function describeDifficultyAdjustment({ change, reasons }: DifficultyAdjustment): string {
+  if (change === 0) return 'On track';
+  const direction = change < 0 ? `Eased by ${-change}` : `Raised by ${change}`;
+  return reasons.length > 0 ? `${direction}: ${reasons.join(', ')}` : direction;
+}
+
+/**
+ * Summarises a finished level for the next generation request, so the generator can
+ * tell which kind of challenge the player struggled with and where.
+ */
+export function getPlayerPerformance(telemetry: LevelTelemetry): PlayerPerformance {
+  const totalPlatforms = Math.max(telemetry.totalPlatforms, 1);
+  const deathHotspots = [...countDeathsByPlatform(telemetry.deathLocations)]
+    .filter(([, count]) => count >= HOTSPOT_FULL_DEATHS)
+    .map(([platform]) => Math.min(100, Math.round((platform / totalPlatforms) * 100)))
+    .sort((a, b) => a - b);
+  return {
+    deaths: telemetry.deaths,
+    falls: telemetry.deathLocations.filter(location => location.cause === 'fall').length,
+    timeRatio: Math.round(getTimeRatio(telemetry) * 100) / 100,
+    deathHotspots,
+  };
+}
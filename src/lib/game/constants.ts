@@ -0,0 +1,45 @@
+// Simulation constants shared by the engine and anything that reasons about
+// player movement (renderer, level tooling). Speeds are per tick and durations are
+// counted in ticks; the simulation always runs at SIMULATION_HZ.
+
+export const SIMULATION_HZ = 60;
+export const FIXED_STEP_MS = 1000 / SIMULATION_HZ;
+
+export const PLAYER_WIDTH = 8;
+export const PLAYER_HEIGHT = 16;
+export const PLAYER_CROUCH_HEIGHT = 8;
+export const PLAYER_SPEED = 2;
+export const JUMP_FORCE = 7;
+export const GRAVITY = 0.3;
+export const DEFAULT_PLATFORM_HEIGHT = 10;
+
+export const DEFAULT_PLATFORM_MOVE_SPEED = 0.5;
+export const DEFAULT_PLATFORM_MOVE_RANGE = 50;
+export const TIMED_PLATFORM_VISIBLE_DURATION = 3 * 60;
+export const TIMED_PLATFORM_HIDDEN_DURATION = 2 * 60;
+export const BREAKABLE_PLATFORM_BREAK_DELAY = 0.5 * 60;
+export const BREAKABLE_PLATFORM_RESPAWN_DURATION = 5 * 60;
+
+export const DEFAULT_SPIKES_WIDTH = 20;
+export const DEFAULT_SPIKES_HEIGHT = 8;
+export const DEFAULT_ENEMY_SIZE = 12;
+export const COLLECTIBLE_SIZE = 8;
+export const ENEMY_PATROL_SPEED = 0.6;
+// Patrol half-range for enemies that are not standing on any platform.
+export const ENEMY_FREE_PATROL_RANGE = 30;
+// How far an enemy's feet may be from a platform top and still count as standing on it.
+export const ENEMY_SUPPORT_TOLERANCE = 12;
+// Ticks after (re)spawning during which obstacles cannot hurt the player.
+export const SPAWN_INVULNERABILITY_DURATION = 1 * 60;
+
+// The goal flag the player has to touch to finish a level, standing on its platform.
+export const GOAL_WIDTH = 12;
+export const GOAL_HEIGHT = 24;
+// How far below a platform top a start or end point may sit and still count as on it.
+export const MARKER_SUPPORT_TOLERANCE = 16;
+
+export const LOGICAL_GAME_WIDTH = 400;
+export const LOGICAL_GAME_HEIGHT = 300;
+
+// How far below the lowest platform the player may fall before dying.
+export const DEATH_FALL_MARGIN = 200;
@@ -0,0 +1,75 @@
+/**
+ * @fileOverview The continuous difficulty scale.
+ *
+ * Levels are rated from 1 (gentle) to 100 (brutal). The rating drives the level's
+ * length, gap distances, share of dynamic platforms and obstacle density for both
+ * generators, and rises a little with every level of a run, levelling off towards the
+ * top of the scale. The easy/medium/hard bands are kept as labels and presets.
+ *
+ * - getDifficultyBand - The band a rating falls in.
+ * - clampDifficultyRating - Rounds a rating onto the scale.
+ * - getNextDifficultyRating - The rating of the level after one with the given rating.
+ * - getDifficultyProgress - How far along the scale a rating is.
+ * - getDifficultyTuning - The generation parameters a rating stands for.
+ */
+
+import type { GenerateLevelInput } from '@/ai/flows/generate-level';
+import { lerp } from '@/lib/game/fixed-step';
+
+type DifficultyBand = GenerateLevelInput['difficulty'];
+
+export const MIN_DIFFICULTY_RATING = 1;
+export const MAX_DIFFICULTY_RATING = 100;
+
+// Where a run starts when a band is picked instead of a rating.
+export const DIFFICULTY_PRESETS: Record<DifficultyBand, number> = {
+  easy: 15,
+  medium: 45,
+  hard: 75,
+};
+
+// Each level closes this fraction of the distance to the top of the scale, so a
+// medium run reaches the hard band after five levels.
+const RATING_GROWTH = 0.1;
+
+export interface DifficultyTuning {
+  // Range the number of platforms is drawn from.
+  levelLength: [number, number];
+  // Fraction of the player's maximum safe jump distance that gaps are drawn from.
+  gapFill: [number, number];
+  // Share of platforms that move, vanish or break.
+  dynamicPlatformRatio: number;
+  // Chance of a platform carrying an obstacle.
+  obstacleChance: number;
+}
+
+export function clampDifficultyRating(rating: number): number {
+  if (!Number.isFinite(rating)) return DIFFICULTY_PRESETS.medium;
+  return Math.min(Math.max(Math.round(rating), MIN_DIFFICULTY_RATING), MAX_DIFFICULTY_RATING);
+}
+
+export function getDifficultyBand(rating: number): DifficultyBand {
+  if (rating <= 33) return 'easy';
+  if (rating <= 66) return 'medium';
+  return 'hard';
+}
+
+export function getNextDifficultyRating(rating: number): number {
+  const step = Math.max(1, Math.round((MAX_DIFFICULTY_RATING - rating) * RATING_GROWTH));
+  return clampDifficultyRating(rating + step);
+}
+
+// How far along the scale a rating is, from 0 to 1.
+export function getDifficultyProgress(rating: number): number {
+  return (clampDifficultyRating(rating) - MIN_DIFFICULTY_RATING) / (MAX_DIFFICULTY_RATING - MIN_DIFFICULTY_RATING);
+}
+
+export function getDifficultyTuning(rating: number): DifficultyTuning {
+  const t = getDifficultyProgress(rating);
+  return {
+    levelLength: [Math.round(lerp(15, 90, t)), Math.round(lerp(30, 130, t))],
+    gapFill: [lerp(0.2, 0.55, t), lerp(0.5, 0.9, t)],
+    dynamicPlatformRatio: lerp(0.2, 0.5, t),
+    obstacleChance: lerp(0.04, 0.25, t),
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * @fileOverview Distance, difficulty and scoring of endless runs.
+ *
+ * An endless run lasts until the player's first death. Each segment is generated a
+ * little harder than the one before it; segments are about equally long, so the rating
+ * climbs with the distance covered. A run scores a point per metre plus the value of
+ * the collectibles picked up on the way.
+ *
+ * - getEndlessSegmentRating - The difficulty rating a segment of a run is generated at.
+ * - getEndlessDistance - Metres covered from the start.
+ * - calculateEndlessScore - Score for a run.
+ */
+
+import { clampDifficultyRating } from '@/lib/game/difficulty';
+
+// World units per metre of distance.
+export const UNITS_PER_METRE = 10;
+// Rating points each segment adds to the run's starting rating.
+export const RATING_PER_SEGMENT = 3;
+export const POINTS_PER_METRE = 1;
+
+export interface EndlessScore {
+  distance: number;
+  collectibles: number;
+  total: number;
+}
+
+export interface EndlessResult {
+  score: EndlessScore;
+  // Metres from the start to the furthest point reached.
+  distance: number;
+  elapsedSeconds: number;
+  segmentsCleared: number;
+  // Rating of the segment the run ended in.
+  difficultyRating: number;
+}
+
+export function getEndlessSegmentRating(startRating: number, index: number): number {
+  return clampDifficultyRating(startRating + index * RATING_PER_SEGMENT);
+}
+
+export function getEndlessDistance(startX: number, x: number): number {
+  return Math.max(0, Math.floor((x - startX) / UNITS_PER_METRE));
+}
+
+export function calculateEndlessScore(distance: number, collectibleScore: number): EndlessScore {
+  const distancePoints = distance * POINTS_PER_METRE;
+  return { distance: distancePoints, collectibles: collectibleScore, total: distancePoints + collectibleScore };
+}
@@ -0,0 +1,681 @@
+/**
+ * @fileOverview Headless game simulation.
+ *
+ * The world owns all player and platform state as plain data so it can be stepped
+ * without a canvas (tests, bots, level tooling). Renderers read the world after each
+ * step and react to the events it returns.
+ *
+ * - createWorld - Builds a world from parsed level data.
+ * - extendWorld - Adds more of a level to a running world.
+ * - removeLeadingEntities - Drops the oldest entities of a running world.
+ * - findPlatformUnderPoint - The platform a start or end point belongs to.
+ * - step - Advances the world by one tick for the given input.
+ * - inputFromKeys - Maps pressed keyboard codes to an InputState.
+ */
+
+import type { ParsedLevelData, Platform as PlatformData, Obstacle as ObstacleData, Collectible as CollectibleData } from '@/types';
+import {
+  PLAYER_WIDTH,
+  PLAYER_HEIGHT,
+  PLAYER_CROUCH_HEIGHT,
+  PLAYER_SPEED,
+  JUMP_FORCE,
+  GRAVITY,
+  DEFAULT_PLATFORM_HEIGHT,
+  DEFAULT_PLATFORM_MOVE_SPEED,
+  DEFAULT_PLATFORM_MOVE_RANGE,
+  TIMED_PLATFORM_VISIBLE_DURATION,
+  TIMED_PLATFORM_HIDDEN_DURATION,
+  BREAKABLE_PLATFORM_BREAK_DELAY,
+  BREAKABLE_PLATFORM_RESPAWN_DURATION,
+  DEFAULT_SPIKES_WIDTH,
+  DEFAULT_SPIKES_HEIGHT,
+  DEFAULT_ENEMY_SIZE,
+  COLLECTIBLE_SIZE,
+  ENEMY_PATROL_SPEED,
+  ENEMY_FREE_PATROL_RANGE,
+  ENEMY_SUPPORT_TOLERANCE,
+  SPAWN_INVULNERABILITY_DURATION,
+  GOAL_WIDTH,
+  GOAL_HEIGHT,
+  MARKER_SUPPORT_TOLERANCE,
+  LOGICAL_GAME_HEIGHT,
+  DEATH_FALL_MARGIN,
+} from '@/lib/game/constants';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PlatformObject {
+  x: number;
+  y: number;
+  // Position at the start of the last tick, for render interpolation.
+  prevX: number;
+  prevY: number;
+  initialX: number;
+  initialY: number;
+  width: number;
+  height: number;
+  type: PlatformData['type'];
+  isCheckpoint: boolean;
+  moveDirectionX?: number;
+  moveRangeX?: number;
+  currentSpeedX?: number;
+  moveDirectionY?: number;
+  moveRangeY?: number;
+  currentSpeedY?: number;
+  isVisible?: boolean;
+  timer?: number;
+  visibleDuration?: number;
+  hiddenDuration?: number;
+  isBroken?: boolean;
+  isBreaking?: boolean;
+  breakingTimer?: number;
+  respawnTimer?: number;
+}
+
+export interface ObstacleObject {
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  initialX: number;
+  width: number;
+  height: number;
+  type: ObstacleData['type'];
+  // Inactive obstacles are hidden and harmless (e.g. an enemy whose platform vanished).
+  isActive: boolean;
+  // Enemy patrol state. Enemies on a platform walk along it and ride it when it moves;
+  // the offset is measured from the platform's left edge.
+  supportPlatform?: PlatformObject | null;
+  patrolOffset?: number;
+  patrolDirection?: number;
+}
+
+// Collectibles stay collected for the rest of the level, deaths included.
+export interface CollectibleObject extends Rect {
+  type: CollectibleData['type'];
+  collected: boolean;
+}
+
+// The flag that ends the level when touched. It stands on the goal platform and rides
+// it when it moves; the offset is measured from the platform's left edge.
+export interface GoalObject extends Rect {
+  prevX: number;
+  prevY: number;
+  platform: PlatformObject | null;
+  offsetX: number;
+}
+
+export interface PlayerState {
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  vx: number;
+  vy: number;
+  isJumping: boolean;
+  isCrouching: boolean;
+  onGround: boolean;
+  width: number;
+  height: number;
+  standingOnPlatform: PlatformObject | null;
+  // Remaining ticks of post-spawn grace during which obstacles are harmless.
+  invulnerableTimer: number;
+}
+
+export interface InputState {
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+  crouch: boolean;
+}
+
+export type DeathCause = 'fall' | 'obstacle';
+
+export type WorldEvent =
+  | { type: 'jump' }
+  | { type: 'death'; cause: DeathCause }
+  // `platform` is the 0-based index of the checkpoint platform.
+  | { type: 'checkpoint'; platform: number }
+  // `collectible` is the 0-based index of the collectible picked up.
+  | { type: 'collect'; collectible: number }
+  | { type: 'win' };
+
+export interface World {
+  player: PlayerState;
+  platforms: PlatformObject[];
+  obstacles: ObstacleObject[];
+  collectibles: CollectibleObject[];
+  spawnPlatform: PlatformObject | null;
+  goalPlatform: PlatformObject | null;
+  goal: GoalObject | null;
+  // The level's explicit start point, if any; the player spawns there on the spawn platform.
+  startPoint: { x: number; y: number } | null;
+  // Where the player comes back after dying: the spawn, or the last checkpoint landed on.
+  respawnPlatform: PlatformObject | null;
+  // Falling below this y kills the player.
+  deathY: number;
+  tick: number;
+  completed: boolean;
+}
+
+export const EMPTY_INPUT: InputState = { left: false, right: false, jump: false, crouch: false };
+
+export function checkCollision(rect1: Rect, rect2: Rect): boolean {
+  return rect1.x < rect2.x + rect2.width &&
+         rect1.x + rect1.width > rect2.x &&
+         rect1.y < rect2.y + rect2.height &&
+         rect1.y + rect1.height > rect2.y;
+}
+
+export function inputFromKeys(keys: ReadonlySet<string>): InputState {
+  return {
+    left: keys.has('KeyA') || keys.has('ArrowLeft'),
+    right: keys.has('KeyD') || keys.has('ArrowRight'),
+    jump: keys.has('KeyW') || keys.has('ArrowUp') || keys.has('Space'),
+    crouch: keys.has('KeyS') || keys.has('ArrowDown'),
+  };
+}
+
+// Whether other bodies (the player, moving platforms) collide with this platform.
+export function isPlatformSolid(p: PlatformObject): boolean {
+  if (p.type === 'breakable' && (p.isBroken || (p.isBreaking && p.breakingTimer !== undefined && p.breakingTimer <= 0))) return false;
+  if (p.type === 'timed' && !p.isVisible) return false;
+  return true;
+}
+
+// Half-range of a horizontally moving platform, which scales with its width.
+export function getMobileMoveRange(width: number): number {
+  return width > 0 ? (width * 0.8 + 20) : DEFAULT_PLATFORM_MOVE_RANGE;
+}
+
+function createPlatformObject(platformData: PlatformData): PlatformObject {
+  const platformObj: PlatformObject = {
+    x: platformData.x, y: platformData.y,
+    prevX: platformData.x, prevY: platformData.y,
+    initialX: platformData.x, initialY: platformData.y,
+    width: platformData.width, height: DEFAULT_PLATFORM_HEIGHT,
+    type: platformData.type || 'standard', currentSpeedX: 0, currentSpeedY: 0,
+    isCheckpoint: !!platformData.checkpoint && (platformData.type === 'standard' || !platformData.type),
+  };
+
+  if (platformData.type === 'mobile') {
+    platformObj.moveDirectionX = 1; platformObj.moveRangeX = getMobileMoveRange(platformData.width);
+  }
+  if (platformData.type === 'vertical_mobile') {
+    platformObj.moveDirectionY = 1; platformObj.moveRangeY = DEFAULT_PLATFORM_MOVE_RANGE;
+  }
+  if (platformData.type === 'timed') {
+    platformObj.isVisible = true; platformObj.visibleDuration = TIMED_PLATFORM_VISIBLE_DURATION;
+    platformObj.hiddenDuration = TIMED_PLATFORM_HIDDEN_DURATION; platformObj.timer = platformObj.visibleDuration;
+  }
+  if (platformData.type === 'breakable') {
+    platformObj.isBroken = false; platformObj.isBreaking = false;
+    platformObj.breakingTimer = 0; platformObj.respawnTimer = 0;
+  }
+  return platformObj;
+}
+
+function findSupportPlatform(platforms: PlatformObject[], obstacle: ObstacleObject): PlatformObject | null {
+  const feetY = obstacle.y + obstacle.height;
+  let best: PlatformObject | null = null;
+  let bestDistance = Infinity;
+  for (const p of platforms) {
+    const overlapsX = obstacle.x + obstacle.width > p.x && obstacle.x < p.x + p.width;
+    const distance = Math.abs(feetY - p.y);
+    if (overlapsX && distance <= ENEMY_SUPPORT_TOLERANCE && distance < bestDistance) {
+      best = p;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function createObstacleObject(obstacleData: ObstacleData, platforms: PlatformObject[]): ObstacleObject {
+  const isEnemy = obstacleData.type === 'enemy';
+  const width = obstacleData.width ?? (isEnemy ? DEFAULT_ENEMY_SIZE : DEFAULT_SPIKES_WIDTH);
+  const height = obstacleData.height ?? (isEnemy ? DEFAULT_ENEMY_SIZE : DEFAULT_SPIKES_HEIGHT);
+  const obstacleObj: ObstacleObject = {
+    x: obstacleData.x, y: obstacleData.y,
+    prevX: obstacleData.x, prevY: obstacleData.y,
+    initialX: obstacleData.x,
+    width, height,
+    type: obstacleData.type,
+    isActive: true,
+  };
+
+  if (isEnemy) {
+    const support = findSupportPlatform(platforms, obstacleObj);
+    obstacleObj.supportPlatform = support;
+    obstacleObj.patrolDirection = 1;
+    if (support) {
+      obstacleObj.y = obstacleObj.prevY = support.y - height;
+      obstacleObj.patrolOffset = Math.min(Math.max(obstacleObj.x - support.x, 0), Math.max(support.width - width, 0));
+    }
+  }
+  return obstacleObj;
+}
+
+type Point = { x: number; y: number };
+
+/**
+ * Finds the platform a start or end point belongs to: the first platform top at or
+ * below the point whose span contains it, or failing that the nearest platform.
+ * Returns -1 only when there are no platforms.
+ */
+export function findPlatformUnderPoint(platforms: ReadonlyArray<{ x: number; y: number; width: number }>, point: Point): number {
+  let below = -1;
+  let nearest = -1;
+  let nearestDistance = Infinity;
+  platforms.forEach((p, index) => {
+    const withinX = point.x >= p.x && point.x <= p.x + p.width;
+    if (withinX && p.y >= point.y - MARKER_SUPPORT_TOLERANCE && (below === -1 || p.y < platforms[below].y)) {
+      below = index;
+    }
+    const dx = Math.max(p.x - point.x, 0, point.x - (p.x + p.width));
+    const distance = Math.hypot(dx, p.y - point.y);
+    if (distance < nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+  return below !== -1 ? below : nearest;
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), Math.max(min, max));
+
+function createGoalObject(platform: PlatformObject | null, endPoint: Point | undefined): GoalObject | null {
+  if (!platform) return null;
+  const centerX = endPoint ? endPoint.x : platform.x + platform.width / 2;
+  const offsetX = clamp(centerX - GOAL_WIDTH / 2 - platform.x, 0, platform.width - GOAL_WIDTH);
+  const x = platform.x + offsetX;
+  const y = platform.y - GOAL_HEIGHT;
+  return { x, y, prevX: x, prevY: y, width: GOAL_WIDTH, height: GOAL_HEIGHT, platform, offsetX };
+}
+
+function placePlayerAtSpawn(world: World): void {
+  const player = world.player;
+  const spawn = world.respawnPlatform;
+  if (spawn) {
+    const centerX = spawn === world.spawnPlatform && world.startPoint ? world.startPoint.x : spawn.x + spawn.width / 2;
+    player.x = clamp(centerX - player.width / 2, spawn.x, spawn.x + spawn.width - player.width);
+    player.y = spawn.y - PLAYER_HEIGHT;
+  } else {
+    player.x = 50; player.y = 100;
+  }
+  // Teleports must not be interpolated across.
+  player.prevX = player.x; player.prevY = player.y;
+  player.invulnerableTimer = SPAWN_INVULNERABILITY_DURATION;
+}
+
+const createCollectibleObject = (collectible: CollectibleData): CollectibleObject => ({
+  x: collectible.x, y: collectible.y, width: COLLECTIBLE_SIZE, height: COLLECTIBLE_SIZE, type: collectible.type, collected: false,
+});
+
+const getDeathY = (platforms: PlatformData[]): number =>
+  Math.max(...platforms.map(p => p.y + DEFAULT_PLATFORM_HEIGHT), LOGICAL_GAME_HEIGHT) + DEATH_FALL_MARGIN;
+
+export interface WorldOptions {
+  // Endless levels have no goal; the level is extended as the player advances.
+  goal?: boolean;
+}
+
+export function createWorld(level: ParsedLevelData, { goal = true }: WorldOptions = {}): World {
+  const platforms = level.platforms.map(createPlatformObject);
+  const obstacles = level.obstacles.map(o => createObstacleObject(o, platforms));
+
+  // Explicit start and end points pick their platforms; otherwise the player starts on
+  // the first standard platform and the goal is the rightmost platform.
+  let goalPlatform: PlatformObject | null = null;
+  if (goal && level.endPoint) {
+    goalPlatform = platforms[findPlatformUnderPoint(platforms, level.endPoint)] ?? null;
+  } else if (goal) {
+    let maxRightEdgeCoord = -Infinity;
+    platforms.forEach(pObj => {
+      const rightEdge = pObj.initialX + pObj.width;
+      if (rightEdge > maxRightEdgeCoord) {
+        maxRightEdgeCoord = rightEdge;
+        goalPlatform = pObj;
+      }
+    });
+  }
+
+  const spawnPlatform = level.startPoint
+    ? platforms[findPlatformUnderPoint(platforms, level.startPoint)] ?? null
+    : platforms.find(p => p.type === 'standard' || !p.type) || platforms[0] || null;
+
+  const world: World = {
+    player: {
+      x: 0, y: 0, prevX: 0, prevY: 0, vx: 0, vy: 0,
+      isJumping: false, isCrouching: false, onGround: false,
+      width: PLAYER_WIDTH, height: PLAYER_HEIGHT, standingOnPlatform: null,
+      invulnerableTimer: 0,
+    },
+    platforms,
+    obstacles,
+    collectibles: (level.collectibles ?? []).map(createCollectibleObject),
+    spawnPlatform,
+    goalPlatform,
+    goal: createGoalObject(goalPlatform, level.endPoint),
+    startPoint: level.startPoint ?? null,
+    respawnPlatform: spawnPlatform,
+    deathY: getDeathY(level.platforms),
+    tick: 0,
+    completed: false,
+  };
+  placePlayerAtSpawn(world);
+  return world;
+}
+
+/**
+ * Appends platforms, obstacles and collectibles to a running world, e.g. the next
+ * segment of an endless level. Existing entities keep their indices; enemies only
+ * patrol platforms added along with them.
+ */
+export function extendWorld(world: World, level: Pick<ParsedLevelData, 'platforms' | 'obstacles' | 'collectibles'>): void {
+  const platforms = level.platforms.map(createPlatformObject);
+  world.platforms.push(...platforms);
+  world.obstacles.push(...level.obstacles.map(o => createObstacleObject(o, platforms)));
+  world.collectibles.push(...(level.collectibles ?? []).map(createCollectibleObject));
+  world.deathY = Math.max(world.deathY, getDeathY(level.platforms));
+}
+
+export interface EntityCounts {
+  platforms: number;
+  obstacles: number;
+  collectibles: number;
+}
+
+/**
+ * Removes the first `counts` platforms, obstacles and collectibles, e.g. a segment of an
+ * endless level the player has long left behind. The remaining entities move up by as
+ * many indices.
+ */
+export function removeLeadingEntities(world: World, counts: EntityCounts): void {
+  world.platforms.splice(0, counts.platforms);
+  world.obstacles.splice(0, counts.obstacles);
+  world.collectibles.splice(0, counts.collectibles);
+}
+
+// 1-based index of the platform the player stands on, or null when airborne.
+export function getStandingPlatformNumber(world: World): number | null {
+  const standing = world.player.standingOnPlatform;
+  if (!standing) return null;
+  const index = world.platforms.indexOf(standing);
+  return index !== -1 ? index + 1 : null;
+}
+
+const tempRect1: Rect = { x: 0, y: 0, width: 0, height: 0 };
+const tempRect2: Rect = { x: 0, y: 0, width: 0, height: 0 };
+
+function updatePlatforms(world: World): void {
+  const { player, platforms } = world;
+
+  platforms.forEach(pObj => {
+    pObj.currentSpeedX = 0; pObj.currentSpeedY = 0;
+
+    if (pObj.type === 'mobile' && pObj.moveDirectionX !== undefined && pObj.moveRangeX !== undefined) {
+      const prevX = pObj.x;
+      let nextX = pObj.x + (DEFAULT_PLATFORM_MOVE_SPEED * pObj.moveDirectionX);
+      let collided = false;
+
+      tempRect1.x = nextX; tempRect1.y = pObj.y; tempRect1.width = pObj.width; tempRect1.height = pObj.height;
+
+      for (const otherP of platforms) {
+        if (pObj === otherP) continue;
+        if (isPlatformSolid(otherP)) {
+          tempRect2.x = otherP.x; tempRect2.y = otherP.y; tempRect2.width = otherP.width; tempRect2.height = otherP.height;
+          if (checkCollision(tempRect1, tempRect2)) { pObj.moveDirectionX *= -1; nextX = pObj.x; collided = true; break; }
+        }
+      }
+      if (!collided) {
+        if (pObj.moveDirectionX === 1 && nextX > pObj.initialX + pObj.moveRangeX) { nextX = pObj.initialX + pObj.moveRangeX; pObj.moveDirectionX = -1; }
+        else if (pObj.moveDirectionX === -1 && nextX < pObj.initialX - pObj.moveRangeX) { nextX = pObj.initialX - pObj.moveRangeX; pObj.moveDirectionX = 1; }
+      }
+      pObj.x = nextX; pObj.currentSpeedX = pObj.x - prevX;
+    }
+
+    if (pObj.type === 'vertical_mobile' && pObj.moveDirectionY !== undefined && pObj.moveRangeY !== undefined) {
+      const prevY = pObj.y;
+      let nextY = pObj.y + (DEFAULT_PLATFORM_MOVE_SPEED * pObj.moveDirectionY);
+      let collided = false;
+
+      tempRect1.x = pObj.x; tempRect1.y = nextY; tempRect1.width = pObj.width; tempRect1.height = pObj.height;
+
+      for (const otherP of platforms) {
+        if (pObj === otherP) continue;
+        if (isPlatformSolid(otherP)) {
+          tempRect2.x = otherP.x; tempRect2.y = otherP.y; tempRect2.width = otherP.width; tempRect2.height = otherP.height;
+          if (checkCollision(tempRect1, tempRect2)) { pObj.moveDirectionY *= -1; nextY = pObj.y; collided = true; break; }
+        }
+      }
+      if (!collided) {
+        if (pObj.moveDirectionY === 1 && nextY > pObj.initialY + pObj.moveRangeY) { nextY = pObj.initialY + pObj.moveRangeY; pObj.moveDirectionY = -1; }
+        else if (pObj.moveDirectionY === -1 && nextY < pObj.initialY - pObj.moveRangeY) { nextY = pObj.initialY - pObj.moveRangeY; pObj.moveDirectionY = 1; }
+      }
+      pObj.y = nextY; pObj.currentSpeedY = pObj.y - prevY;
+    }
+
+    if (pObj.type === 'timed' && pObj.timer !== undefined && pObj.isVisible !== undefined && pObj.visibleDuration !== undefined && pObj.hiddenDuration !== undefined) {
+      pObj.timer--;
+      if (pObj.timer <= 0) { pObj.isVisible = !pObj.isVisible; pObj.timer = pObj.isVisible ? pObj.visibleDuration : pObj.hiddenDuration; }
+    }
+
+    if (pObj.type === 'breakable') {
+      if (pObj.isBreaking && pObj.breakingTimer !== undefined && pObj.breakingTimer > 0) {
+        pObj.breakingTimer--;
+        if (pObj.breakingTimer <= 0) {
+          pObj.isBroken = true; pObj.respawnTimer = BREAKABLE_PLATFORM_RESPAWN_DURATION;
+          pObj.isBreaking = false; if (player.standingOnPlatform === pObj) { player.standingOnPlatform = null; player.onGround = false; }
+        }
+      } else if (pObj.isBroken && pObj.respawnTimer !== undefined) {
+        pObj.respawnTimer--;
+        if (pObj.respawnTimer <= 0) { pObj.isBroken = false; pObj.isBreaking = false; pObj.breakingTimer = 0; }
+      }
+    }
+  });
+}
+
+function updatePlayer(world: World, input: InputState, events: WorldEvent[]): void {
+  const { player, platforms } = world;
+
+  if (player.onGround && player.standingOnPlatform) {
+    if (player.standingOnPlatform.currentSpeedX) player.x += player.standingOnPlatform.currentSpeedX;
+    if (player.standingOnPlatform.currentSpeedY) player.y += player.standingOnPlatform.currentSpeedY;
+  }
+
+  const wasCrouching = player.isCrouching;
+  player.isCrouching = input.crouch && player.onGround;
+  const targetHeight = player.isCrouching ? PLAYER_CROUCH_HEIGHT : PLAYER_HEIGHT;
+  const heightDiff = PLAYER_HEIGHT - PLAYER_CROUCH_HEIGHT;
+
+  if (player.height !== targetHeight) {
+    if (player.isCrouching && !wasCrouching) { player.y += heightDiff; player.height = PLAYER_CROUCH_HEIGHT; }
+    else if (!player.isCrouching && wasCrouching) {
+      tempRect1.x = player.x; tempRect1.y = player.y - heightDiff; tempRect1.width = player.width; tempRect1.height = PLAYER_HEIGHT;
+      let canUncrouch = true;
+      for (const p of platforms) {
+        tempRect2.x = p.x; tempRect2.y = p.y; tempRect2.width = p.width; tempRect2.height = p.height;
+        const pSolid = !((p.type === 'timed' && !p.isVisible) || (p.type === 'breakable' && (p.isBroken || p.isBreaking)));
+        if (pSolid && checkCollision(tempRect1, tempRect2)) { canUncrouch = false; break; }
+      }
+      if (canUncrouch) { player.y -= heightDiff; player.height = PLAYER_HEIGHT; }
+      else { player.isCrouching = true; }
+    }
+  }
+
+  player.vx = 0;
+  if (!player.isCrouching) {
+    if (input.left) player.vx = -PLAYER_SPEED;
+    if (input.right) player.vx = PLAYER_SPEED;
+  }
+
+  if (input.jump && player.onGround && !player.isCrouching) {
+    player.vy = -JUMP_FORCE; player.isJumping = true; player.onGround = false; player.standingOnPlatform = null;
+    events.push({ type: 'jump' });
+  }
+
+  if (!player.onGround) player.vy += GRAVITY;
+  else { if (player.vy > 0) player.vy = 0; }
+
+  player.x += player.vx;
+  const prevPlayerY = player.y; player.y += player.vy;
+
+  player.onGround = false;
+  if (player.standingOnPlatform) {
+    const p = player.standingOnPlatform;
+    if ((p.type === 'timed' && !p.isVisible) || (p.type === 'breakable' && p.isBroken)) {
+      player.standingOnPlatform = null;
+    }
+  }
+
+  const collidablePlatforms = platforms.filter(isPlatformSolid);
+
+  for (const pObj of collidablePlatforms) {
+    tempRect1.x = pObj.x; tempRect1.y = pObj.y; tempRect1.width = pObj.width; tempRect1.height = pObj.height;
+    tempRect2.x = player.x; tempRect2.y = prevPlayerY; tempRect2.width = player.width; tempRect2.height = player.height;
+
+    if (checkCollision(tempRect2, tempRect1)) {
+      if (player.vx > 0) player.x = tempRect1.x - player.width;
+      else if (player.vx < 0) player.x = tempRect1.x + tempRect1.width;
+      player.vx = 0;
+    }
+  }
+
+  for (const pObj of collidablePlatforms) {
+    tempRect1.x = pObj.x; tempRect1.y = pObj.y; tempRect1.width = pObj.width; tempRect1.height = pObj.height;
+    tempRect2.x = player.x; tempRect2.y = player.y; tempRect2.width = player.width; tempRect2.height = player.height;
+
+    if (checkCollision(tempRect2, tempRect1)) {
+      if (player.vy > 0) {
+        if (prevPlayerY + player.height <= tempRect1.y + 1) {
+          player.y = tempRect1.y - player.height; player.vy = 0; player.isJumping = false; player.onGround = true;
+          player.standingOnPlatform = pObj;
+
+          if (pObj.type === 'breakable' && !pObj.isBroken && !pObj.isBreaking) {
+            pObj.isBreaking = true; pObj.breakingTimer = BREAKABLE_PLATFORM_BREAK_DELAY;
+          }
+        }
+      } else if (player.vy < 0) {
+        if (prevPlayerY >= tempRect1.y + tempRect1.height - 1) {
+          player.y = tempRect1.y + tempRect1.height; player.vy = 0;
+        }
+      }
+    }
+  }
+
+  if (!player.onGround && player.standingOnPlatform) {
+    let stillOn = false; const p = player.standingOnPlatform;
+    if (!((p.type === 'timed' && !p.isVisible) || (p.type === 'breakable' && p.isBroken))) {
+      const pFeetY = player.y + player.height;
+      if (player.x + player.width > p.x && player.x < p.x + p.width &&
+          pFeetY >= p.y && pFeetY < p.y + Math.abs(player.vy) + GRAVITY + 1) {
+        player.y = p.y - player.height; player.vy = 0; player.isJumping = false;
+        player.onGround = true; stillOn = true;
+      }
+    }
+    if (!stillOn) {
+      player.standingOnPlatform = null;
+    }
+  }
+}
+
+function updateObstacles(world: World): void {
+  world.obstacles.forEach(obstacle => {
+    if (obstacle.type !== 'enemy' || obstacle.patrolDirection === undefined) return;
+
+    const support = obstacle.supportPlatform;
+    if (support) {
+      obstacle.isActive = isPlatformSolid(support);
+      const maxOffset = Math.max(support.width - obstacle.width, 0);
+      let offset = (obstacle.patrolOffset ?? 0) + ENEMY_PATROL_SPEED * obstacle.patrolDirection;
+      if (offset >= maxOffset) { offset = maxOffset; obstacle.patrolDirection = -1; }
+      else if (offset <= 0) { offset = 0; obstacle.patrolDirection = 1; }
+      obstacle.patrolOffset = offset;
+      obstacle.x = support.x + offset;
+      obstacle.y = support.y - obstacle.height;
+    } else {
+      let nextX = obstacle.x + ENEMY_PATROL_SPEED * obstacle.patrolDirection;
+      if (nextX > obstacle.initialX + ENEMY_FREE_PATROL_RANGE) { nextX = obstacle.initialX + ENEMY_FREE_PATROL_RANGE; obstacle.patrolDirection = -1; }
+      else if (nextX < obstacle.initialX - ENEMY_FREE_PATROL_RANGE) { nextX = obstacle.initialX - ENEMY_FREE_PATROL_RANGE; obstacle.patrolDirection = 1; }
+      obstacle.x = nextX;
+    }
+  });
+}
+
+function updateGoal(world: World): void {
+  const goal = world.goal;
+  if (!goal || !goal.platform) return;
+  goal.x = goal.platform.x + goal.offsetX;
+  goal.y = goal.platform.y - goal.height;
+}
+
+function touchesObstacle(world: World): boolean {
+  const player = world.player;
+  if (player.invulnerableTimer > 0) return false;
+  return world.obstacles.some(obstacle => obstacle.isActive && checkCollision(player, obstacle));
+}
+
+function collectTouched(world: World, events: WorldEvent[]): void {
+  world.collectibles.forEach((collectible, index) => {
+    if (collectible.collected || !checkCollision(world.player, collectible)) return;
+    collectible.collected = true;
+    events.push({ type: 'collect', collectible: index });
+  });
+}
+
+function killPlayer(world: World, cause: DeathCause, events: WorldEvent[]): void {
+  const player = world.player;
+  events.push({ type: 'death', cause });
+  placePlayerAtSpawn(world);
+  player.vy = 0; player.isJumping = false; player.onGround = false; player.standingOnPlatform = null;
+  player.height = PLAYER_HEIGHT; player.isCrouching = false;
+}
+
+/**
+ * Advances the world by one simulation tick. Mutates `world` in place and returns
+ * the gameplay events raised during the tick, in the order they happened.
+ */
+export function step(world: World, input: InputState): WorldEvent[] {
+  const events: WorldEvent[] = [];
+  const player = world.player;
+  world.tick++;
+
+  player.prevX = player.x; player.prevY = player.y;
+  world.platforms.forEach(p => { p.prevX = p.x; p.prevY = p.y; });
+  world.obstacles.forEach(o => { o.prevX = o.x; o.prevY = o.y; });
+  if (world.goal) { world.goal.prevX = world.goal.x; world.goal.prevY = world.goal.y; }
+
+  if (player.invulnerableTimer > 0) player.invulnerableTimer--;
+
+  updatePlatforms(world);
+  updateObstacles(world);
+  updateGoal(world);
+  updatePlayer(world, input, events);
+
+  if (player.y > world.deathY) {
+    killPlayer(world, 'fall', events);
+  } else if (touchesObstacle(world)) {
+    killPlayer(world, 'obstacle', events);
+  }
+
+  collectTouched(world, events);
+
+  const standing = player.standingOnPlatform;
+  if (player.onGround && standing && standing.isCheckpoint && standing !== world.respawnPlatform) {
+    world.respawnPlatform = standing;
+    events.push({ type: 'checkpoint', platform: world.platforms.indexOf(standing) });
+  }
+
+  if (!world.completed && world.goal && checkCollision(player, world.goal)) {
+    world.completed = true;
+    events.push({ type: 'win' });
+  }
+
+  return events;
+}
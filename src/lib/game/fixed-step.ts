@@ -0,0 +1,33 @@
+import { FIXED_STEP_MS } from '@/lib/game/constants';
+
+// Frames longer than this (tab switches, debugger pauses) are clamped so the
+// simulation never tries to catch up on seconds of missed ticks at once.
+const MAX_FRAME_MS = 250;
+
+export interface FixedStepClock {
+  accumulatorMs: number;
+}
+
+export function createFixedStepClock(): FixedStepClock {
+  return { accumulatorMs: 0 };
+}
+
+/**
+ * Adds a rendered frame's elapsed time to the clock and returns how many fixed
+ * simulation steps should run for it. The remainder stays in the accumulator.
+ */
+export function consumeSteps(clock: FixedStepClock, frameMs: number): number {
+  clock.accumulatorMs += Math.min(Math.max(frameMs, 0), MAX_FRAME_MS);
+  const steps = Math.floor(clock.accumulatorMs / FIXED_STEP_MS);
+  clock.accumulatorMs -= steps * FIXED_STEP_MS;
+  return steps;
+}
+
+// How far the renderer is between the previous and the current tick, in [0, 1).
+export function getInterpolationAlpha(clock: FixedStepClock): number {
+  return clock.accumulatorMs / FIXED_STEP_MS;
+}
+
+export function lerp(from: number, to: number, alpha: number): number {
+  return from + (to - from) * alpha;
+}
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import type { GenerateLevelInput } from '@/ai/flows/generate-level';
+import type { Random } from '@/lib/game/random';
+import { clampDifficultyRating, getDifficultyBand, getDifficultyTuning } from '@/lib/game/difficulty';
+import { LEVEL_THEMES, PLATFORM_TYPES } from '@/lib/game/level-schema';
+
+export const MIN_LEVEL_LENGTH = 10;
+// Longer levels are generated in segments; this keeps their coordinates within the level format's range.
+export const MAX_LEVEL_LENGTH = 500;
+// Bounds for a requested maximum gap; the player's own jump limits still apply.
+export const MIN_GAP_LIMIT = 16;
+export const MAX_GAP_LIMIT = 120;
+export const MAX_PLATFORM_TYPE_WEIGHT = 10;
+export const VERTICALITY_LEVELS = ['flat', 'normal', 'steep'] as const;
+export const PLATFORM_DENSITIES = ['sparse', 'normal', 'dense'] as const;
+export const OBSTACLE_DENSITIES = ['low', 'medium', 'high'] as const;
+export const MAX_DESCRIPTION_LENGTH = 300;
+
+// Parameters a player can set instead of having them derived from the difficulty rating.
+export type GenerationParameters = Partial<Pick<
+  GenerateLevelInput,
+  'levelLength' | 'platformDensity' | 'obstacleDensity' | 'platformTypeWeights' | 'maxGap' | 'verticality' | 'theme' | 'description'
+>>;
+
+export interface GenerationRequest {
+  difficultyRating: number;
+  // How the player did on their last level, passed through as a hint for the generator.
+  playerPerformance?: GenerateLevelInput['playerPerformance'];
+  parameters?: GenerationParameters;
+}
+
+export const PlayerPerformanceSchema = z.object({
+  deaths: z.number().int().nonnegative(),
+  falls: z.number().int().nonnegative().describe('Deaths from falling; the rest were from obstacles.'),
+  timeRatio: z.number().nonnegative().describe('Time taken relative to the par time for the level length.'),
+  deathHotspots: z.array(z.number().int().min(0).max(100)).max(100).describe('How far through the level, in percent, deaths piled up.'),
+});
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(Math.round(value), min), max);
+
+const clampedNumber = (min: number, max: number) => z.number().finite().transform(value => clamp(value, min, max));
+
+// Weights for unknown platform types, and weights that are not numbers, are dropped.
+const PlatformTypeWeightsSchema = z.record(z.string(), z.unknown()).transform(weights => {
+  const known: NonNullable<GenerationParameters['platformTypeWeights']> = {};
+  PLATFORM_TYPES.forEach(type => {
+    const weight = clampedNumber(0, MAX_PLATFORM_TYPE_WEIGHT).safeParse(weights[type]);
+    if (weight.success) known[type] = weight.data;
+  });
+  return known;
+});
+
+// Every field is optional and an invalid one is dropped rather than failing the request.
+const GenerationParametersSchema = z.object({
+  levelLength: clampedNumber(MIN_LEVEL_LENGTH, MAX_LEVEL_LENGTH).optional().catch(undefined),
+  platformDensity: z.enum(PLATFORM_DENSITIES).optional().catch(undefined),
+  obstacleDensity: z.enum(OBSTACLE_DENSITIES).optional().catch(undefined),
+  platformTypeWeights: PlatformTypeWeightsSchema.optional().catch(undefined),
+  maxGap: clampedNumber(MIN_GAP_LIMIT, MAX_GAP_LIMIT).optional().catch(undefined),
+  verticality: z.enum(VERTICALITY_LEVELS).optional().catch(undefined),
+  theme: z.enum(LEVEL_THEMES).optional().catch(undefined),
+  description: z.string().transform(text => text.trim().slice(0, MAX_DESCRIPTION_LENGTH) || undefined).optional().catch(undefined),
+});
+
+/**
+ * Requests come from the browser, so only the known parameters are kept: enums must
+ * hold one of their values, numbers are brought back into range and descriptions are
+ * trimmed to length. Anything else is dropped.
+ */
+export function sanitizeGenerationParameters(parameters: unknown): GenerationParameters {
+  const parsed = GenerationParametersSchema.safeParse(parameters);
+  if (!parsed.success) return {};
+  return Object.fromEntries(Object.entries(parsed.data).filter(([, value]) => value !== undefined));
+}
+
+export function sanitizePlayerPerformance(performance: unknown): GenerateLevelInput['playerPerformance'] {
+  const parsed = PlayerPerformanceSchema.safeParse(performance);
+  return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * Expands a request into the full set of generation parameters. The rating already
+ * scales gaps and obstacles, so the densities start out neutral; parameters set in
+ * the request take precedence over the derived ones.
+ */
+export function deriveGenerationInput({ difficultyRating, playerPerformance, parameters }: GenerationRequest, random: Random): GenerateLevelInput {
+  const rating = clampDifficultyRating(difficultyRating);
+  const [minLength, maxLength] = getDifficultyTuning(rating).levelLength;
+  const derived: GenerateLevelInput = {
+    difficulty: getDifficultyBand(rating),
+    difficultyRating: rating,
+    levelLength: random.int(minLength, maxLength),
+    platformDensity: 'normal',
+    obstacleDensity: 'medium',
+    verticality: 'normal',
+    theme: random.pick(LEVEL_THEMES),
+  };
+  const performance = sanitizePlayerPerformance(playerPerformance);
+  return {
+    ...derived,
+    ...(parameters ? sanitizeGenerationParameters(parameters) : {}),
+    ...(performance ? { playerPerformance: performance } : {}),
+  };
+}
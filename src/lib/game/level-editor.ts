@@ -0,0 +1,230 @@
+/**
+ * @fileOverview Pure editing operations behind the level editor.
+ *
+ * The editor works directly on the canonical `Level` shape, so anything it saves can
+ * be played, shared and re-imported unchanged. Every operation returns a new level;
+ * undo/redo is a plain snapshot history.
+ *
+ * - createBlankLevel - A minimal playable starting point.
+ * - createHistory / pushHistory / undo / redo - Snapshot history.
+ * - addEntity / updateEntity / removeEntity / getEntity - Edits by selection.
+ * - setMarker / clearMarker - Places or removes the start and end points.
+ */
+
+import {
+  MIN_PLATFORM_WIDTH,
+  MAX_PLATFORM_WIDTH,
+  MIN_OBSTACLE_SIZE,
+  MAX_OBSTACLE_SIZE,
+  MAX_COORDINATE,
+  type Level,
+  type PLATFORM_TYPES,
+  type OBSTACLE_TYPES,
+  type COLLECTIBLE_TYPES,
+} from '@/lib/game/level-schema';
+import { DEFAULT_ENEMY_SIZE, DEFAULT_SPIKES_WIDTH, DEFAULT_SPIKES_HEIGHT, COLLECTIBLE_SIZE } from '@/lib/game/constants';
+import { findPlatformUnderPoint } from '@/lib/game/engine';
+
+export type EditorPlatform = Level['platforms'][number];
+export type EditorObstacle = Level['obstacles'][number];
+export type EditorCollectible = NonNullable<Level['collectibles']>[number];
+export type EditorEntity = EditorPlatform | EditorObstacle | EditorCollectible;
+export type PlatformType = (typeof PLATFORM_TYPES)[number];
+export type ObstacleType = (typeof OBSTACLE_TYPES)[number];
+export type CollectibleType = (typeof COLLECTIBLE_TYPES)[number];
+
+export type EditorSelection = { kind: 'platform' | 'obstacle' | 'collectible'; index: number };
+export type MarkerKind = 'startPoint' | 'endPoint';
+
+export const GRID_SIZE = 10;
+export const DEFAULT_EDITOR_PLATFORM_WIDTH = 60;
+const MAX_HISTORY = 100;
+
+export interface EditorHistory {
+  past: Level[];
+  present: Level;
+  future: Level[];
+}
+
+export function createBlankLevel(): Level {
+  return {
+    platforms: [
+      { x: 0, y: 120, width: 80, type: 'standard' },
+      { x: 140, y: 100, width: 80, type: 'standard' },
+    ],
+    obstacles: [],
+    startPoint: { x: 40, y: 120 },
+    endPoint: { x: 180, y: 100 },
+  };
+}
+
+export const snapToGrid = (value: number, grid: number = GRID_SIZE): number => Math.round(value / grid) * grid;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+const clampCoordinate = (value: number): number => clamp(Math.round(value), -MAX_COORDINATE, MAX_COORDINATE);
+
+export function createHistory(level: Level): EditorHistory {
+  return { past: [], present: level, future: [] };
+}
+
+// Records `level` as the new present; a no-op when nothing changed.
+export function pushHistory(history: EditorHistory, level: Level): EditorHistory {
+  if (level === history.present) return history;
+  return { past: [...history.past, history.present].slice(-MAX_HISTORY), present: level, future: [] };
+}
+
+export function undo(history: EditorHistory): EditorHistory {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redo(history: EditorHistory): EditorHistory {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
+
+export function getEntity(level: Level, selection: EditorSelection): EditorEntity | undefined {
+  if (selection.kind === 'collectible') return level.collectibles?.[selection.index];
+  return selection.kind === 'platform' ? level.platforms[selection.index] : level.obstacles[selection.index];
+}
+
+function normalizePlatform({ checkpoint, ...platform }: EditorPlatform): EditorPlatform {
+  return {
+    ...platform,
+    x: clampCoordinate(platform.x),
+    y: clampCoordinate(platform.y),
+    width: clamp(Math.round(platform.width), MIN_PLATFORM_WIDTH, MAX_PLATFORM_WIDTH),
+    // Only standard platforms can be checkpoints.
+    ...(checkpoint && platform.type === 'standard' ? { checkpoint: true } : {}),
+  };
+}
+
+function normalizeObstacle(obstacle: EditorObstacle): EditorObstacle {
+  return {
+    ...obstacle,
+    x: clampCoordinate(obstacle.x),
+    y: clampCoordinate(obstacle.y),
+    width: clamp(Math.round(obstacle.width), MIN_OBSTACLE_SIZE, MAX_OBSTACLE_SIZE),
+    height: clamp(Math.round(obstacle.height), MIN_OBSTACLE_SIZE, MAX_OBSTACLE_SIZE),
+  };
+}
+
+function normalizeCollectible(collectible: EditorCollectible): EditorCollectible {
+  return { ...collectible, x: clampCoordinate(collectible.x), y: clampCoordinate(collectible.y) };
+}
+
+/**
+ * Adds a platform, obstacle or collectible whose top-left corner is at `at` and
+ * returns the new level with the selection pointing at it.
+ */
+export function addEntity(
+  level: Level,
+  entity:
+    | { kind: 'platform'; type: PlatformType }
+    | { kind: 'obstacle'; type: ObstacleType }
+    | { kind: 'collectible'; type: CollectibleType },
+  at: { x: number; y: number },
+): { level: Level; selection: EditorSelection } {
+  if (entity.kind === 'platform') {
+    const platform = normalizePlatform({ x: at.x, y: at.y, width: DEFAULT_EDITOR_PLATFORM_WIDTH, type: entity.type });
+    return {
+      level: { ...level, platforms: [...level.platforms, platform] },
+      selection: { kind: 'platform', index: level.platforms.length },
+    };
+  }
+  if (entity.kind === 'collectible') {
+    const collectibles = level.collectibles ?? [];
+    // Centred on the clicked point.
+    const collectible = normalizeCollectible({ x: at.x - COLLECTIBLE_SIZE / 2, y: at.y - COLLECTIBLE_SIZE / 2, type: entity.type });
+    return {
+      level: { ...level, collectibles: [...collectibles, collectible] },
+      selection: { kind: 'collectible', index: collectibles.length },
+    };
+  }
+  const width = entity.type === 'enemy' ? DEFAULT_ENEMY_SIZE : DEFAULT_SPIKES_WIDTH;
+  const height = entity.type === 'enemy' ? DEFAULT_ENEMY_SIZE : DEFAULT_SPIKES_HEIGHT;
+  // Obstacles are placed standing on the clicked point.
+  const obstacle = normalizeObstacle({ x: at.x, y: at.y - height, width, height, type: entity.type });
+  return {
+    level: { ...level, obstacles: [...level.obstacles, obstacle] },
+    selection: { kind: 'obstacle', index: level.obstacles.length },
+  };
+}
+
+export function updateEntity(
+  level: Level,
+  selection: EditorSelection,
+  patch: Partial<EditorPlatform> | Partial<EditorObstacle> | Partial<EditorCollectible>,
+): Level {
+  if (selection.kind === 'collectible') {
+    return {
+      ...level,
+      collectibles: level.collectibles?.map((collectible, index) =>
+        index === selection.index ? normalizeCollectible({ ...collectible, ...(patch as Partial<EditorCollectible>) }) : collectible),
+    };
+  }
+  if (selection.kind === 'platform') {
+    return {
+      ...level,
+      platforms: level.platforms.map((platform, index) =>
+        index === selection.index ? normalizePlatform({ ...platform, ...(patch as Partial<EditorPlatform>) }) : platform),
+    };
+  }
+  return {
+    ...level,
+    obstacles: level.obstacles.map((obstacle, index) =>
+      index === selection.index ? normalizeObstacle({ ...obstacle, ...(patch as Partial<EditorObstacle>) }) : obstacle),
+  };
+}
+
+/**
+ * Sets the start or end point at `at`, standing it on the platform the game will put
+ * it on so the editor shows exactly where the player spawns or the goal flag stands.
+ */
+export function setMarker(level: Level, marker: MarkerKind, at: { x: number; y: number }): Level {
+  const platform = level.platforms[findPlatformUnderPoint(level.platforms, at)];
+  const point = platform
+    ? { x: clamp(Math.round(at.x), platform.x, platform.x + platform.width), y: platform.y }
+    : { x: clampCoordinate(at.x), y: clampCoordinate(at.y) };
+  return { ...level, [marker]: point };
+}
+
+export function clearMarker(level: Level, marker: MarkerKind): Level {
+  const next = { ...level };
+  delete next[marker];
+  return next;
+}
+
+export function removeEntity(level: Level, selection: EditorSelection): Level {
+  if (selection.kind === 'collectible') {
+    return { ...level, collectibles: level.collectibles?.filter((_, index) => index !== selection.index) };
+  }
+  if (selection.kind === 'platform') {
+    return { ...level, platforms: level.platforms.filter((_, index) => index !== selection.index) };
+  }
+  return { ...level, obstacles: level.obstacles.filter((_, index) => index !== selection.index) };
+}
+
+// World-space bounds of everything in the level, for sizing the editor canvas.
+export function getLevelBounds(level: Level): { minX: number; minY: number; maxX: number; maxY: number } {
+  const rects = [
+    ...level.platforms.map(p => ({ x: p.x, y: p.y, width: p.width, height: 0 })),
+    ...level.obstacles,
+    ...(level.collectibles ?? []).map(c => ({ ...c, width: COLLECTIBLE_SIZE, height: COLLECTIBLE_SIZE })),
+  ];
+  if (rects.length === 0) return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  return {
+    minX: Math.min(...rects.map(r => r.x)),
+    minY: Math.min(...rects.map(r => r.y)),
+    maxX: Math.max(...rects.map(r => r.x + r.width)),
+    maxY: Math.max(...rects.map(r => r.y + r.height)),
+  };
+}
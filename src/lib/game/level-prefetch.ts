@@ -0,0 +1,91 @@
+/**
+ * @fileOverview A small queue of levels generated ahead of the one being played.
+ *
+ * Level N+1 (and a little beyond) is requested as soon as level N starts, so that
+ * finishing a level rarely has to wait for generation. Entries are keyed by level
+ * number, difficulty rating and source: when the run changes course (a new game, a
+ * manual level, another source, or a rating adapted to the player), entries that no
+ * longer match the plan are dropped. With adaptive difficulty, the next level depends on
+ * how the current one went, so callers queue it only once that is known.
+ *
+ * - planPrefetch - The levels that should be queued, starting with the next one.
+ * - fillPrefetchQueue - Drops stale entries and requests the missing ones.
+ * - takePrefetched - Removes and returns the entry for a level.
+ * - isPrefetchReady - Whether a level's request has settled.
+ */
+
+import type { LevelSource } from '@/types';
+import { getNextDifficultyRating } from '@/lib/game/difficulty';
+
+// How many levels ahead to generate. Each entry is a full generation request.
+export const PREFETCH_DEPTH = 2;
+
+export interface PrefetchPlan {
+  levelNumber: number;
+  difficultyRating: number;
+  source: LevelSource;
+}
+
+export interface PrefetchEntry<T> extends PrefetchPlan {
+  request: Promise<T>;
+  // Set once the request settles.
+  outcome: T | null;
+}
+
+export interface PrefetchQueue<T> {
+  entries: PrefetchEntry<T>[];
+}
+
+export function createPrefetchQueue<T>(): PrefetchQueue<T> {
+  return { entries: [] };
+}
+
+// Levels after `next` follow the usual progression, as their adaptation is not known yet.
+export function planPrefetch(next: PrefetchPlan, depth: number = PREFETCH_DEPTH): PrefetchPlan[] {
+  const plan: PrefetchPlan[] = [next];
+  for (let i = 1; i < depth; i++) {
+    const previous = plan[i - 1];
+    plan.push({ ...previous, levelNumber: previous.levelNumber + 1, difficultyRating: getNextDifficultyRating(previous.difficultyRating) });
+  }
+  return plan;
+}
+
+const matchesPlan = (entry: PrefetchPlan, plan: PrefetchPlan): boolean =>
+  entry.levelNumber === plan.levelNumber && entry.difficultyRating === plan.difficultyRating && entry.source === plan.source;
+
+/**
+ * Brings the queue in line with the levels planned from `next` on, keeping entries
+ * that are already in flight and calling `fetch` for the rest. `fetch` should report
+ * failures in its result rather than reject. `onSettled` is called whenever a new
+ * request settles.
+ */
+export function fillPrefetchQueue<T>(
+  queue: PrefetchQueue<T>,
+  next: PrefetchPlan,
+  fetch: (plan: PrefetchPlan) => Promise<T>,
+  onSettled?: (entry: PrefetchEntry<T>) => void,
+  depth: number = PREFETCH_DEPTH,
+): void {
+  queue.entries = planPrefetch(next, depth).map(plan => {
+    const existing = queue.entries.find(entry => matchesPlan(entry, plan));
+    if (existing) return existing;
+    const entry: PrefetchEntry<T> = { ...plan, request: fetch(plan), outcome: null };
+    entry.request.then(outcome => {
+      entry.outcome = outcome;
+      onSettled?.(entry);
+    });
+    return entry;
+  });
+}
+
+// Removes the entry for `plan` along with everything queued before it.
+export function takePrefetched<T>(queue: PrefetchQueue<T>, plan: PrefetchPlan): PrefetchEntry<T> | null {
+  const index = queue.entries.findIndex(entry => matchesPlan(entry, plan));
+  if (index === -1) return null;
+  const [entry] = queue.entries.splice(0, index + 1).slice(-1);
+  return entry;
+}
+
+export function isPrefetchReady<T>(queue: PrefetchQueue<T>, plan: PrefetchPlan): boolean {
+  return queue.entries.some(entry => matchesPlan(entry, plan) && entry.outcome !== null);
+}
@@ -0,0 +1,102 @@
+/**
+ * @fileOverview Deterministic reachability repairs for generated levels.
+ *
+ * When the solvability analysis finds a jump the player cannot make, the target
+ * platform is nudged just far enough towards the platform the player jumps from.
+ * Everything beyond the target moves with it so the rest of the level keeps its shape.
+ *
+ * - repairReachability - Nudges platforms until the level is solvable or the budget runs out.
+ */
+
+import type { Level } from '@/lib/game/level-schema';
+import { analyzeSolvability, getJumpReach, MAX_JUMP_HEIGHT, type FailingGap, type SolvabilityReport } from '@/lib/game/solvability';
+
+// Slack left inside the player's limits so repaired jumps are not pixel-perfect.
+const JUMP_SAFETY_MARGIN = 8;
+const MAX_REPAIR_NUDGES = 20;
+
+export interface ReachabilityRepairResult {
+  level: Level;
+  repairs: string[];
+  report: SolvabilityReport;
+}
+
+interface Nudge {
+  dx: number;
+  dy: number;
+}
+
+function computeNudge(gap: FailingGap, from: Level['platforms'][number], to: Level['platforms'][number]): Nudge {
+  let dy = 0;
+  let rise = gap.rise;
+  const comfortableHeight = MAX_JUMP_HEIGHT - JUMP_SAFETY_MARGIN;
+  if (rise > comfortableHeight) {
+    // Lower the target (y grows downwards) until its top is within jump height.
+    dy = rise - comfortableHeight;
+    rise = comfortableHeight;
+  }
+
+  const reach = Math.max((getJumpReach(rise) ?? 0) - JUMP_SAFETY_MARGIN, 0);
+  const excess = Math.max(gap.horizontalGap - reach, 0);
+  const dx = to.x >= from.x ? -excess : excess;
+  return { dx: Math.round(dx), dy: Math.round(dy) };
+}
+
+function applyNudge(level: Level, target: number, nudge: Nudge): { level: Level; moved: number } {
+  const anchorX = level.platforms[target].x;
+  // Platforms on the far side of the target (relative to the nudge) move with it.
+  const isBeyond = (x: number) => (nudge.dx <= 0 ? x >= anchorX : x <= anchorX);
+  const shiftPoint = <T extends { x: number; y: number }>(point: T): T =>
+    isBeyond(point.x) ? { ...point, x: point.x + nudge.dx, y: point.y + nudge.dy } : point;
+
+  let moved = 0;
+  const platforms = level.platforms.map((platform, index) => {
+    if (index !== target && !isBeyond(platform.x)) return platform;
+    moved++;
+    return { ...platform, x: platform.x + nudge.dx, y: platform.y + nudge.dy };
+  });
+
+  return {
+    level: {
+      ...level,
+      platforms,
+      obstacles: level.obstacles.map(shiftPoint),
+      collectibles: level.collectibles?.map(shiftPoint),
+      startPoint: level.startPoint && shiftPoint(level.startPoint),
+      endPoint: level.endPoint && shiftPoint(level.endPoint),
+    },
+    moved,
+  };
+}
+
+function describeNudge(gap: FailingGap, nudge: Nudge, moved: number): string {
+  const parts: string[] = [];
+  if (nudge.dx !== 0) parts.push(`${Math.abs(nudge.dx)} units ${nudge.dx < 0 ? 'left' : 'right'}`);
+  if (nudge.dy !== 0) parts.push(`${nudge.dy} units down`);
+  const others = moved - 1;
+  const followers = others > 0 ? ` and ${others} platform${others === 1 ? '' : 's'} beyond it` : '';
+  return `Moved platform ${gap.toPlatform}${followers} ${parts.join(' and ')} to bring it within jump range of platform ${gap.fromPlatform}.`;
+}
+
+/**
+ * Repeatedly nudges the closest unreachable platform into range until the level is
+ * solvable, no useful nudge remains, or the nudge budget is spent.
+ */
+export function repairReachability(level: Level): ReachabilityRepairResult {
+  const repairs: string[] = [];
+  let current = level;
+  let report = analyzeSolvability(current);
+
+  for (let i = 0; i < MAX_REPAIR_NUDGES && !report.solvable && report.failingGap; i++) {
+    const gap = report.failingGap;
+    const nudge = computeNudge(gap, current.platforms[gap.fromPlatform], current.platforms[gap.toPlatform]);
+    if (nudge.dx === 0 && nudge.dy === 0) break;
+
+    const { level: nudged, moved } = applyNudge(current, gap.toPlatform, nudge);
+    repairs.push(describeNudge(gap, nudge, moved));
+    current = nudged;
+    report = analyzeSolvability(current);
+  }
+
+  return { level: current, repairs, report };
+}
@@ -0,0 +1,347 @@
+/**
+ * @fileOverview Validation and repair of level data.
+ *
+ * Level JSON comes from the model, from files and from share links, so it is never
+ * trusted. `parseLevelData` repairs what it safely can (numeric strings, out-of-range
+ * sizes, aliased type names), drops entries it cannot use, and then checks the result
+ * against the strict `LevelSchema` that the rest of the game relies on.
+ *
+ * - LevelSchema - The canonical, normalized level shape.
+ * - LevelOutputSchema - The level shape asked of the model as structured output.
+ * - parseLevelData - Parses, repairs and validates raw level data.
+ * - formatLevelIssues - Renders issues as a human-readable message.
+ */
+
+import { z } from 'zod';
+import type { LevelIssue } from '@/types';
+import { PLAYER_WIDTH, DEFAULT_ENEMY_SIZE, DEFAULT_SPIKES_WIDTH, DEFAULT_SPIKES_HEIGHT } from '@/lib/game/constants';
+
+export const PLATFORM_TYPES = ['standard', 'mobile', 'vertical_mobile', 'timed', 'breakable'] as const;
+export const OBSTACLE_TYPES = ['spikes', 'enemy'] as const;
+export const COLLECTIBLE_TYPES = ['coin', 'gem'] as const;
+// Sets the scenery a level is drawn against; it does not change how a level plays.
+export const LEVEL_THEMES = ['classic', 'cavern', 'sky', 'lava'] as const;
+
+export const MIN_PLATFORM_WIDTH = PLAYER_WIDTH;
+export const MAX_PLATFORM_WIDTH = 400;
+export const MIN_OBSTACLE_SIZE = 4;
+export const MAX_OBSTACLE_SIZE = 64;
+export const MAX_COORDINATE = 100000;
+export const MIN_LEVEL_PLATFORMS = 2;
+
+const coordinate = z.number().finite().min(-MAX_COORDINATE).max(MAX_COORDINATE);
+
+export const PointSchema = z.object({
+  x: coordinate,
+  y: coordinate,
+});
+
+export const PlatformSchema = z.object({
+  x: coordinate,
+  y: coordinate,
+  width: z.number().finite().min(MIN_PLATFORM_WIDTH).max(MAX_PLATFORM_WIDTH),
+  type: z.enum(PLATFORM_TYPES),
+  checkpoint: z.boolean().optional(),
+});
+
+export const ObstacleSchema = z.object({
+  x: coordinate,
+  y: coordinate,
+  type: z.enum(OBSTACLE_TYPES),
+  width: z.number().finite().min(MIN_OBSTACLE_SIZE).max(MAX_OBSTACLE_SIZE),
+  height: z.number().finite().min(MIN_OBSTACLE_SIZE).max(MAX_OBSTACLE_SIZE),
+});
+
+// Positioned by its top-left corner; every collectible is COLLECTIBLE_SIZE square.
+export const CollectibleSchema = z.object({
+  x: coordinate,
+  y: coordinate,
+  type: z.enum(COLLECTIBLE_TYPES),
+});
+
+export const LevelSchema = z.object({
+  platforms: z.array(PlatformSchema).min(MIN_LEVEL_PLATFORMS, `A level needs at least ${MIN_LEVEL_PLATFORMS} valid platforms.`),
+  obstacles: z.array(ObstacleSchema),
+  collectibles: z.array(CollectibleSchema).optional(),
+  startPoint: PointSchema.optional(),
+  endPoint: PointSchema.optional(),
+  theme: z.enum(LEVEL_THEMES).optional(),
+});
+export type Level = z.infer<typeof LevelSchema>;
+
+// LevelSchema's fields, but as lenient as the raw shapes `parseLevelData` repairs:
+// Genkit rejects a response that does not match, which would skip both the repair and
+// the re-prompt with feedback. Ranges, type names and sizes are left to the repair.
+const listTypes = (types: readonly string[]): string => `One of ${types.map(type => `"${type}"`).join(', ')}.`;
+const outputPoint = { x: z.number(), y: z.number() };
+
+export const LevelOutputSchema = z.object({
+  platforms: z.array(z.object({
+    ...outputPoint,
+    width: z.number(),
+    type: z.string().optional().describe(listTypes(PLATFORM_TYPES)),
+    checkpoint: z.boolean().optional(),
+  })).describe('The platforms in the order the player meets them; the first is the start and the last carries the goal.'),
+  obstacles: z.array(z.object({
+    ...outputPoint,
+    type: z.string().describe(listTypes(OBSTACLE_TYPES)),
+    width: z.number().optional(),
+    height: z.number().optional(),
+  })).optional(),
+  collectibles: z.array(z.object({
+    ...outputPoint,
+    type: z.string().optional().describe(listTypes(COLLECTIBLE_TYPES)),
+  })).optional(),
+  startPoint: z.object(outputPoint).optional().describe('Where the player appears, standing on the first platform.'),
+  endPoint: z.object(outputPoint).optional().describe('Where the goal flag stands, on the last platform.'),
+});
+
+export type LevelParseResult =
+  | { success: true; level: Level; issues: LevelIssue[] }
+  | { success: false; issues: LevelIssue[] };
+
+// Lenient shapes used before repair: numbers may arrive as numeric strings and
+// types may be missing or spelled differently.
+const looseNumber = z.preprocess(
+  value => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value),
+  z.number().finite(),
+);
+
+const looseBoolean = z.preprocess(
+  value => (value === 'true' || value === 1 ? true : value === 'false' || value === 0 ? false : value),
+  z.boolean(),
+);
+
+const RawPlatformSchema = z.object({
+  x: looseNumber,
+  y: looseNumber,
+  width: looseNumber,
+  type: z.string().optional(),
+  checkpoint: looseBoolean.nullish(),
+});
+
+const RawObstacleSchema = z.object({
+  x: looseNumber,
+  y: looseNumber,
+  type: z.string(),
+  width: looseNumber.optional(),
+  height: looseNumber.optional(),
+});
+
+const RawCollectibleSchema = z.object({
+  x: looseNumber,
+  y: looseNumber,
+  type: z.string().optional(),
+});
+
+const RawLevelSchema = z.object({
+  platforms: z.array(z.unknown(), { required_error: 'The level has no "platforms" array.' }),
+  obstacles: z.array(z.unknown()).nullish(),
+  collectibles: z.array(z.unknown()).nullish(),
+  startPoint: z.unknown().optional(),
+  endPoint: z.unknown().optional(),
+  theme: z.unknown().optional(),
+});
+
+const OBSTACLE_TYPE_ALIASES: Record<string, (typeof OBSTACLE_TYPES)[number]> = {
+  spike: 'spikes',
+  spikes: 'spikes',
+  enemy: 'enemy',
+  enemies: 'enemy',
+};
+
+const COLLECTIBLE_TYPE_ALIASES: Record<string, (typeof COLLECTIBLE_TYPES)[number]> = {
+  coin: 'coin',
+  coins: 'coin',
+  gem: 'gem',
+  gems: 'gem',
+  diamond: 'gem',
+};
+
+const formatPath = (path: (string | number)[]): string =>
+  path.reduce<string>((acc, part) => (typeof part === 'number' ? `${acc}[${part}]` : acc ? `${acc}.${part}` : part), '');
+
+const describeZodError = (error: z.ZodError): string =>
+  error.issues.map(issue => (issue.path.length ? `${formatPath(issue.path)}: ${issue.message}` : issue.message)).join(', ');
+
+const normalizeTypeName = (type: string): string => type.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+function clampWithIssue(value: number, min: number, max: number, path: string, issues: LevelIssue[]): number {
+  const clamped = clamp(value, min, max);
+  if (clamped !== value) {
+    issues.push({ path, severity: 'warning', message: `${value} is out of range and was clamped to ${clamped}.` });
+  }
+  return clamped;
+}
+
+// Strips the markdown code fences models sometimes wrap JSON in.
+function stripCodeFences(text: string): string {
+  const fenced = text.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return fenced ? fenced[1] : text;
+}
+
+function repairPlatform(raw: unknown, index: number, issues: LevelIssue[]): Level['platforms'][number] | null {
+  const path = `platforms[${index}]`;
+  const parsed = RawPlatformSchema.safeParse(raw);
+  if (!parsed.success) {
+    issues.push({ path, severity: 'warning', message: `Dropped invalid platform (${describeZodError(parsed.error)}).` });
+    return null;
+  }
+
+  let type: Level['platforms'][number]['type'] = 'standard';
+  if (parsed.data.type !== undefined) {
+    const normalized = normalizeTypeName(parsed.data.type);
+    if ((PLATFORM_TYPES as readonly string[]).includes(normalized)) {
+      type = normalized as typeof type;
+    } else {
+      issues.push({ path: `${path}.type`, severity: 'warning', message: `Unknown platform type "${parsed.data.type}" was replaced with "standard".` });
+    }
+  }
+
+  const platform: Level['platforms'][number] = {
+    x: clampWithIssue(parsed.data.x, -MAX_COORDINATE, MAX_COORDINATE, `${path}.x`, issues),
+    y: clampWithIssue(parsed.data.y, -MAX_COORDINATE, MAX_COORDINATE, `${path}.y`, issues),
+    width: clampWithIssue(parsed.data.width, MIN_PLATFORM_WIDTH, MAX_PLATFORM_WIDTH, `${path}.width`, issues),
+    type,
+  };
+  if (parsed.data.checkpoint) {
+    // Respawning onto a moving or vanishing platform is not safe.
+    if (type === 'standard') {
+      platform.checkpoint = true;
+    } else {
+      issues.push({ path: `${path}.checkpoint`, severity: 'warning', message: `Only standard platforms can be checkpoints; removed from a "${type}" platform.` });
+    }
+  }
+  return platform;
+}
+
+function repairObstacle(raw: unknown, index: number, issues: LevelIssue[]): Level['obstacles'][number] | null {
+  const path = `obstacles[${index}]`;
+  const parsed = RawObstacleSchema.safeParse(raw);
+  if (!parsed.success) {
+    issues.push({ path, severity: 'warning', message: `Dropped invalid obstacle (${describeZodError(parsed.error)}).` });
+    return null;
+  }
+
+  const type = OBSTACLE_TYPE_ALIASES[normalizeTypeName(parsed.data.type)];
+  if (!type) {
+    issues.push({ path: `${path}.type`, severity: 'warning', message: `Dropped obstacle of unknown type "${parsed.data.type}".` });
+    return null;
+  }
+
+  const defaultWidth = type === 'enemy' ? DEFAULT_ENEMY_SIZE : DEFAULT_SPIKES_WIDTH;
+  const defaultHeight = type === 'enemy' ? DEFAULT_ENEMY_SIZE : DEFAULT_SPIKES_HEIGHT;
+  return {
+    x: clampWithIssue(parsed.data.x, -MAX_COORDINATE, MAX_COORDINATE, `${path}.x`, issues),
+    y: clampWithIssue(parsed.data.y, -MAX_COORDINATE, MAX_COORDINATE, `${path}.y`, issues),
+    type,
+    width: clampWithIssue(parsed.data.width ?? defaultWidth, MIN_OBSTACLE_SIZE, MAX_OBSTACLE_SIZE, `${path}.width`, issues),
+    height: clampWithIssue(parsed.data.height ?? defaultHeight, MIN_OBSTACLE_SIZE, MAX_OBSTACLE_SIZE, `${path}.height`, issues),
+  };
+}
+
+function repairCollectible(raw: unknown, index: number, issues: LevelIssue[]): NonNullable<Level['collectibles']>[number] | null {
+  const path = `collectibles[${index}]`;
+  const parsed = RawCollectibleSchema.safeParse(raw);
+  if (!parsed.success) {
+    issues.push({ path, severity: 'warning', message: `Dropped invalid collectible (${describeZodError(parsed.error)}).` });
+    return null;
+  }
+
+  let type: (typeof COLLECTIBLE_TYPES)[number] = 'coin';
+  if (parsed.data.type !== undefined) {
+    const alias = COLLECTIBLE_TYPE_ALIASES[normalizeTypeName(parsed.data.type)];
+    if (alias) {
+      type = alias;
+    } else {
+      issues.push({ path: `${path}.type`, severity: 'warning', message: `Unknown collectible type "${parsed.data.type}" was replaced with "coin".` });
+    }
+  }
+
+  return {
+    x: clampWithIssue(parsed.data.x, -MAX_COORDINATE, MAX_COORDINATE, `${path}.x`, issues),
+    y: clampWithIssue(parsed.data.y, -MAX_COORDINATE, MAX_COORDINATE, `${path}.y`, issues),
+    type,
+  };
+}
+
+function repairPoint(raw: unknown, path: string, issues: LevelIssue[]): Level['startPoint'] {
+  if (raw === undefined || raw === null) return undefined;
+  const parsed = z.object({ x: looseNumber, y: looseNumber }).safeParse(raw);
+  if (!parsed.success) {
+    issues.push({ path, severity: 'warning', message: `Ignored invalid point (${describeZodError(parsed.error)}).` });
+    return undefined;
+  }
+  return {
+    x: clampWithIssue(parsed.data.x, -MAX_COORDINATE, MAX_COORDINATE, `${path}.x`, issues),
+    y: clampWithIssue(parsed.data.y, -MAX_COORDINATE, MAX_COORDINATE, `${path}.y`, issues),
+  };
+}
+
+function repairTheme(raw: unknown, issues: LevelIssue[]): Level['theme'] {
+  if (raw === undefined || raw === null) return undefined;
+  const normalized = typeof raw === 'string' ? normalizeTypeName(raw) : '';
+  if ((LEVEL_THEMES as readonly string[]).includes(normalized)) return normalized as Level['theme'];
+  issues.push({ path: 'theme', severity: 'warning', message: `Ignored unknown theme "${String(raw)}".` });
+  return undefined;
+}
+
+/**
+ * Parses raw level data (a JSON string or an already-parsed value), repairing what
+ * can be repaired. Fails only when no playable level can be recovered; `issues`
+ * lists every repair as a warning and every fatal problem as an error.
+ */
+export function parseLevelData(input: unknown): LevelParseResult {
+  const issues: LevelIssue[] = [];
+
+  let data = input;
+  if (typeof input === 'string') {
+    const trimmedData = stripCodeFences(input.trim());
+    if (!trimmedData) {
+      return { success: false, issues: [{ path: '', severity: 'error', message: 'Level data is empty.' }] };
+    }
+    try {
+      data = JSON.parse(trimmedData);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return { success: false, issues: [{ path: '', severity: 'error', message: `Level data is not valid JSON: ${reason}` }] };
+    }
+  }
+
+  const raw = RawLevelSchema.safeParse(data);
+  if (!raw.success) {
+    return { success: false, issues: [{ path: '', severity: 'error', message: describeZodError(raw.error) }] };
+  }
+
+  const collectibles = (raw.data.collectibles ?? [])
+    .map((collectible, index) => repairCollectible(collectible, index, issues))
+    .filter((collectible): collectible is NonNullable<Level['collectibles']>[number] => collectible !== null);
+
+  const repaired = {
+    platforms: raw.data.platforms
+      .map((platform, index) => repairPlatform(platform, index, issues))
+      .filter((platform): platform is Level['platforms'][number] => platform !== null),
+    obstacles: (raw.data.obstacles ?? [])
+      .map((obstacle, index) => repairObstacle(obstacle, index, issues))
+      .filter((obstacle): obstacle is Level['obstacles'][number] => obstacle !== null),
+    ...(collectibles.length > 0 ? { collectibles } : {}),
+    startPoint: repairPoint(raw.data.startPoint, 'startPoint', issues),
+    endPoint: repairPoint(raw.data.endPoint, 'endPoint', issues),
+    theme: repairTheme(raw.data.theme, issues),
+  };
+
+  const result = LevelSchema.safeParse(repaired);
+  if (!result.success) {
+    result.error.issues.forEach(issue => {
+      issues.push({ path: formatPath(issue.path), severity: 'error', message: issue.message });
+    });
+    return { success: false, issues };
+  }
+  return { success: true, level: result.data, issues };
+}
+
+export function formatLevelIssues(issues: LevelIssue[]): string {
+  return issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('\n');
+}
@@ -0,0 +1,221 @@
+/**
+ * @fileOverview Levels built from chained segments.
+ *
+ * Long levels are generated as segments of SEGMENT_LENGTH platforms or so, and
+ * endless levels as an open-ended series of them. Segments meet at joints: standard
+ * platforms JOINT_WIDTH wide whose height is fixed in advance, so every segment can be
+ * generated (and validated) on its own. A segment's contract says at which heights
+ * it starts and ends; the platform it starts on is the previous segment's exit, and
+ * the one it ends on is the rightmost platform of the segment, so neighbouring
+ * segments never overlap. Exits double as checkpoints.
+ *
+ * Segments are laid out from x 0 at their entry and keep their absolute heights;
+ * stitching only moves them along.
+ *
+ * - planSegments - The contracts of a level of a given length.
+ * - countSegments - How many segments a level of a given length is built from.
+ * - getEndlessSegmentContract - The contract of one segment of an endless level.
+ * - getSegmentSeed - The seed a segment of a seeded level is generated from.
+ * - fitSegmentToContract - Validates a segment against its contract, repairing what it can.
+ * - placeSegment - Moves a segment to continue from the previous segment's exit.
+ * - stitchSegments - Joins the segments of a level into one level.
+ */
+
+import type { Level } from '@/lib/game/level-schema';
+import { repairReachability } from '@/lib/game/level-repair';
+import { describeFailingGap } from '@/lib/game/solvability';
+import { findPlatformUnderPoint } from '@/lib/game/engine';
+import { createRandom, type Random } from '@/lib/game/random';
+import { ENEMY_SUPPORT_TOLERANCE } from '@/lib/game/constants';
+
+// Levels longer than this are generated in segments of about this many platforms.
+export const SEGMENT_LENGTH = 30;
+export const ENDLESS_SEGMENT_LENGTH = 20;
+// How many segments of a level are generated at once.
+export const MAX_PARALLEL_SEGMENTS = 4;
+export const JOINT_WIDTH = 60;
+// Where the first segment starts, matching the usual start platform.
+export const FIRST_ENTRY_Y = 120;
+// Heights later joints are drawn from; y grows downwards.
+const MIN_JOINT_Y = 20;
+const MAX_JOINT_Y = 200;
+// How far off its joint height a generated exit may be and still be moved onto it.
+const JOINT_TOLERANCE = 24;
+// Keeps a segment's joints from sharing a random stream with its generator.
+const JOINT_SEED_SALT = 0x5EC7;
+
+export interface SegmentContract {
+  // 0-based position of the segment in its level.
+  index: number;
+  // Segments in the level; endless levels have no count.
+  count?: number;
+  // Platforms in the segment, its entry included.
+  length: number;
+  // Top of the platform the segment starts on.
+  entryY: number;
+  // Top of the platform the segment hands over on, or null for the segment that ends at the goal.
+  exitY: number | null;
+}
+
+export type SegmentFitResult =
+  | { ok: true; level: Level; repairs: string[] }
+  | { ok: false; problem: string };
+
+type LevelPlatform = Level['platforms'][number];
+type LevelPart = Pick<Level, 'platforms' | 'obstacles' | 'collectibles'>;
+
+const drawJointY = (random: Random): number => random.int(MIN_JOINT_Y, MAX_JOINT_Y);
+
+export function countSegments(levelLength: number): number {
+  return levelLength > SEGMENT_LENGTH ? Math.ceil((levelLength - 1) / (SEGMENT_LENGTH - 1)) : 1;
+}
+
+/**
+ * Splits a level into segments of near-equal length. Segments after the first share
+ * their entry with the previous exit, so their lengths add up to more than the level's.
+ */
+export function planSegments(levelLength: number, random: Random): SegmentContract[] {
+  const count = countSegments(levelLength);
+  const newPlatforms = levelLength - 1;
+  const joints = [FIRST_ENTRY_Y, ...Array.from({ length: count - 1 }, () => drawJointY(random))];
+  return joints.map((entryY, index) => ({
+    index,
+    count,
+    length: Math.floor((newPlatforms * (index + 1)) / count) - Math.floor((newPlatforms * index) / count) + 1,
+    entryY,
+    exitY: index < count - 1 ? joints[index + 1] : null,
+  }));
+}
+
+export function getSegmentSeed(seed: number, index: number): number {
+  return (seed + Math.imul(index, 0x9E3779B9)) >>> 0;
+}
+
+// Joints depend only on the level's seed, so any segment can be planned without the ones before it.
+const getEndlessJointY = (seed: number, index: number): number =>
+  index === 0 ? FIRST_ENTRY_Y : drawJointY(createRandom(getSegmentSeed(seed, index) ^ JOINT_SEED_SALT));
+
+export function getEndlessSegmentContract(seed: number, index: number): SegmentContract {
+  return {
+    index,
+    length: ENDLESS_SEGMENT_LENGTH,
+    entryY: getEndlessJointY(seed, index),
+    exitY: getEndlessJointY(seed, index + 1),
+  };
+}
+
+function shiftLevel(level: Level, dx: number, dy: number): Level {
+  const shift = <T extends { x: number; y: number }>(point: T): T => ({ ...point, x: point.x + dx, y: point.y + dy });
+  return {
+    ...level,
+    platforms: level.platforms.map(shift),
+    obstacles: level.obstacles.map(shift),
+    collectibles: level.collectibles?.map(shift),
+    startPoint: level.startPoint && shift(level.startPoint),
+    endPoint: level.endPoint && shift(level.endPoint),
+  };
+}
+
+const topCenter = (platform: LevelPlatform) => ({ x: Math.round(platform.x + platform.width / 2), y: platform.y });
+
+const standsOn = (obstacle: Level['obstacles'][number], platform: LevelPlatform): boolean =>
+  obstacle.x < platform.x + platform.width && obstacle.x + obstacle.width > platform.x
+  && Math.abs(obstacle.y + obstacle.height - platform.y) <= ENEMY_SUPPORT_TOLERANCE;
+
+/**
+ * Brings a generated segment in line with its contract: the entry becomes the first
+ * platform at x 0, the exit the last one, both standard, JOINT_WIDTH wide, at their
+ * joint heights and free of obstacles. The whole segment moves with its entry, and an
+ * exit within JOINT_TOLERANCE of its height is moved onto it. The result must be
+ * solvable from entry to exit; when it cannot be made so, `problem` says why.
+ */
+export function fitSegmentToContract(level: Level, contract: SegmentContract): SegmentFitResult {
+  const fail = (problem: string): SegmentFitResult => ({ ok: false, problem });
+  const entryIndex = level.startPoint ? findPlatformUnderPoint(level.platforms, level.startPoint) : 0;
+  const exitIndex = level.endPoint ? findPlatformUnderPoint(level.platforms, level.endPoint) : level.platforms.length - 1;
+  if (entryIndex === exitIndex) return fail('The first and last platforms of the segment must be different platforms.');
+  const entry = level.platforms[entryIndex];
+  if (entry.type !== 'standard') return fail(`The segment's first platform must be "standard", not "${entry.type}".`);
+
+  // The entry keeps its right edge, where the first jump starts from.
+  const entryX = entry.x + entry.width - JOINT_WIDTH;
+  const shifted = shiftLevel(level, -entryX, contract.entryY - entry.y);
+  const repairs: string[] = [];
+  const platforms = shifted.platforms.map((platform, index): LevelPlatform => {
+    if (index === entryIndex) return { x: 0, y: contract.entryY, width: JOINT_WIDTH, type: 'standard' };
+    if (index !== exitIndex || contract.exitY === null) return platform;
+    return { x: platform.x, y: contract.exitY, width: JOINT_WIDTH, type: 'standard', checkpoint: true };
+  });
+  const entryPlatform = platforms[entryIndex];
+  const exitPlatform = platforms[exitIndex];
+  const others = platforms.filter((_, index) => index !== entryIndex && index !== exitIndex);
+
+  const afterEntry = platforms.filter((_, index) => index !== entryIndex);
+  if (afterEntry.some(platform => platform.x < entryPlatform.x + entryPlatform.width)) {
+    return fail('Every platform after the first must start to the right of the first platform.');
+  }
+  if (contract.exitY !== null) {
+    const original = shifted.platforms[exitIndex];
+    if (original.type !== 'standard') return fail(`The segment's last platform must be "standard", not "${original.type}".`);
+    if (Math.abs(original.y - contract.exitY) > JOINT_TOLERANCE) {
+      return fail(`The segment's last platform must be at y ${contract.exitY} when the first is at y ${contract.entryY}; it is at y ${Math.round(original.y)}.`);
+    }
+    if (original.y !== contract.exitY || original.width !== JOINT_WIDTH) repairs.push(`Moved the segment's exit onto its joint at y ${contract.exitY}.`);
+    if (others.some(platform => platform.x + platform.width > exitPlatform.x + exitPlatform.width)) {
+      return fail("The segment's last platform must be its rightmost one: no platform may reach past its right edge.");
+    }
+  }
+
+  const obstacles = shifted.obstacles.filter(obstacle =>
+    !standsOn(obstacle, entryPlatform) && !(contract.exitY !== null && standsOn(obstacle, exitPlatform)));
+  if (obstacles.length < shifted.obstacles.length) repairs.push('Removed obstacles from the segment\'s joint platforms.');
+
+  const fitted: Level = {
+    ...shifted,
+    platforms: [entryPlatform, ...(contract.exitY !== null ? [...others, exitPlatform] : afterEntry)],
+    obstacles,
+    startPoint: topCenter(entryPlatform),
+    endPoint: contract.exitY !== null ? topCenter(exitPlatform) : shifted.endPoint,
+  };
+
+  const { level: repaired, repairs: nudges, report } = repairReachability(fitted);
+  if (!report.solvable) {
+    return fail(report.failingGap ? describeFailingGap(report.failingGap) : 'The segment has no reachable last platform.');
+  }
+  const first = repaired.platforms[0];
+  const last = repaired.platforms[repaired.platforms.length - 1];
+  if (first.y !== contract.entryY || (contract.exitY !== null && last.y !== contract.exitY)) {
+    return fail('The climb between the first and last platforms is too steep to fix without moving them.');
+  }
+  // Nudges may have moved the entry along; the segment still starts at x 0.
+  return { ok: true, level: shiftLevel(repaired, -first.x, 0), repairs: [...repairs, ...nudges] };
+}
+
+/**
+ * Moves a fitted segment along so its entry lies on `exit`, the previous segment's
+ * exit platform, and leaves the entry out. The result extends the previous segment.
+ */
+export function placeSegment(segment: Level, exit: { x: number }): LevelPart & Pick<Level, 'endPoint'> {
+  const moved = shiftLevel(segment, exit.x - segment.platforms[0].x, 0);
+  return {
+    platforms: moved.platforms.slice(1),
+    obstacles: moved.obstacles,
+    collectibles: moved.collectibles,
+    endPoint: moved.endPoint,
+  };
+}
+
+// Joins fitted segments, in order, into the level they were planned for.
+export function stitchSegments(segments: Level[]): Level {
+  return segments.slice(1).reduce<Level>((level, segment) => {
+    const placed = placeSegment(segment, level.platforms[level.platforms.length - 1]);
+    const collectibles = [...(level.collectibles ?? []), ...(placed.collectibles ?? [])];
+    return {
+      ...level,
+      platforms: [...level.platforms, ...placed.platforms],
+      obstacles: [...level.obstacles, ...placed.obstacles],
+      ...(collectibles.length > 0 ? { collectibles } : {}),
+      endPoint: placed.endPoint,
+    };
+  }, segments[0]);
+}
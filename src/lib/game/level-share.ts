@@ -0,0 +1,151 @@
+/**
+ * @fileOverview Moving levels in and out of the game.
+ *
+ * Levels are exported as plain level JSON files, which `parseLevelData` reads back
+ * directly. Share links carry the level in the URL fragment as a compact tuple
+ * encoding, deflated and base64url-encoded so that typical levels fit in a link.
+ * Everything read back in goes through `parseLevelData`, as it is untrusted.
+ *
+ * - serializeLevelFile - Level JSON for a downloadable `.json` file.
+ * - parseLevelFile - Reads an imported level file.
+ * - encodeLevelCode / decodeLevelCode - Level <-> compact share code.
+ * - createShareUrl - Builds a link that opens the level.
+ * - readLevelCodeFromHash - Extracts a share code from `location.hash`.
+ */
+
+import { parseLevelData, PLATFORM_TYPES, OBSTACLE_TYPES, COLLECTIBLE_TYPES, type Level, type LevelParseResult } from '@/lib/game/level-schema';
+
+export const LEVEL_FRAGMENT_KEY = 'level';
+export const LEVEL_FILE_EXTENSION = '.json';
+
+const SHARE_FORMAT_VERSION = 1;
+// First character of a share code: whether the payload is deflated.
+const COMPRESSED_MARKER = 'z';
+const PLAIN_MARKER = 'j';
+
+type PlatformTuple = [x: number, y: number, width: number, type: number, checkpoint?: 1];
+type ObstacleTuple = [x: number, y: number, type: number, width: number, height: number];
+type CollectibleTuple = [x: number, y: number, type: number];
+type PointTuple = [x: number, y: number];
+
+interface CompactLevel {
+  v: number;
+  p: PlatformTuple[];
+  o?: ObstacleTuple[];
+  c?: CollectibleTuple[];
+  s?: PointTuple;
+  e?: PointTuple;
+  t?: string;
+}
+
+export function serializeLevelFile(level: Level): string {
+  return JSON.stringify(level, null, 2);
+}
+
+export function parseLevelFile(text: string): LevelParseResult {
+  return parseLevelData(text);
+}
+
+function toCompactLevel(level: Level): CompactLevel {
+  const compact: CompactLevel = {
+    v: SHARE_FORMAT_VERSION,
+    p: level.platforms.map((p): PlatformTuple =>
+      (p.checkpoint ? [p.x, p.y, p.width, PLATFORM_TYPES.indexOf(p.type), 1] : [p.x, p.y, p.width, PLATFORM_TYPES.indexOf(p.type)])),
+  };
+  if (level.obstacles.length > 0) {
+    compact.o = level.obstacles.map(o => [o.x, o.y, OBSTACLE_TYPES.indexOf(o.type), o.width, o.height]);
+  }
+  if (level.collectibles && level.collectibles.length > 0) {
+    compact.c = level.collectibles.map(c => [c.x, c.y, COLLECTIBLE_TYPES.indexOf(c.type)]);
+  }
+  if (level.startPoint) compact.s = [level.startPoint.x, level.startPoint.y];
+  if (level.endPoint) compact.e = [level.endPoint.x, level.endPoint.y];
+  if (level.theme) compact.t = level.theme;
+  return compact;
+}
+
+// Expands the tuples back into raw level data; validation is left to parseLevelData.
+function fromCompactLevel(data: unknown): unknown {
+  if (!data || typeof data !== 'object' || !Array.isArray((data as CompactLevel).p)) {
+    throw new Error('The share code does not contain a level.');
+  }
+  const compact = data as CompactLevel;
+  if (compact.v !== SHARE_FORMAT_VERSION) {
+    throw new Error(`Unsupported share code version ${compact.v}.`);
+  }
+  const toPoint = (tuple: unknown) => (Array.isArray(tuple) ? { x: tuple[0], y: tuple[1] } : undefined);
+  return {
+    platforms: compact.p.map(tuple => (Array.isArray(tuple)
+      ? { x: tuple[0], y: tuple[1], width: tuple[2], type: PLATFORM_TYPES[tuple[3]], checkpoint: tuple[4] === 1 }
+      : tuple)),
+    obstacles: (Array.isArray(compact.o) ? compact.o : []).map(tuple => (Array.isArray(tuple)
+      ? { x: tuple[0], y: tuple[1], type: OBSTACLE_TYPES[tuple[2]] ?? String(tuple[2]), width: tuple[3], height: tuple[4] }
+      : tuple)),
+    collectibles: (Array.isArray(compact.c) ? compact.c : []).map(tuple => (Array.isArray(tuple)
+      ? { x: tuple[0], y: tuple[1], type: COLLECTIBLE_TYPES[tuple[2]] ?? String(tuple[2]) }
+      : tuple)),
+    startPoint: toPoint(compact.s),
+    endPoint: toPoint(compact.e),
+    theme: compact.t,
+  };
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function pipeBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Encodes a level as a URL-safe share code. Falls back to an uncompressed code
+ * where the runtime lacks CompressionStream.
+ */
+export async function encodeLevelCode(level: Level): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(toCompactLevel(level)));
+  if (typeof CompressionStream === 'undefined') {
+    return PLAIN_MARKER + toBase64Url(json);
+  }
+  return COMPRESSED_MARKER + toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')));
+}
+
+export async function decodeLevelCode(code: string): Promise<LevelParseResult> {
+  try {
+    const marker = code.charAt(0);
+    let bytes = fromBase64Url(code.slice(1));
+    if (marker === COMPRESSED_MARKER) {
+      if (typeof DecompressionStream === 'undefined') {
+        throw new Error('This browser cannot open compressed share links.');
+      }
+      bytes = await pipeBytes(bytes, new DecompressionStream('deflate-raw'));
+    } else if (marker !== PLAIN_MARKER) {
+      throw new Error('Unrecognised share code.');
+    }
+    return parseLevelData(fromCompactLevel(JSON.parse(new TextDecoder().decode(bytes))));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { success: false, issues: [{ path: '', severity: 'error', message: `Could not read the shared level: ${reason}` }] };
+  }
+}
+
+export async function createShareUrl(level: Level, baseUrl: string): Promise<string> {
+  const url = new URL(baseUrl);
+  url.hash = `${LEVEL_FRAGMENT_KEY}=${await encodeLevelCode(level)}`;
+  return url.toString();
+}
+
+export function readLevelCodeFromHash(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const code = params.get(LEVEL_FRAGMENT_KEY);
+  return code && code.trim() !== '' ? code.trim() : null;
+}
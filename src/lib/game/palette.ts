@@ -0,0 +1,45 @@
+/**
+ * @fileOverview Colours shared by the game renderer and the level editor.
+ */
+
+import type { PLATFORM_TYPES, OBSTACLE_TYPES, COLLECTIBLE_TYPES, LEVEL_THEMES } from '@/lib/game/level-schema';
+
+export const PLATFORM_COLORS: Record<(typeof PLATFORM_TYPES)[number], number> = {
+  standard: 0x9400D3,
+  mobile: 0x0077FF,
+  vertical_mobile: 0x00D377,
+  timed: 0xFF8C00,
+  breakable: 0x8B4513,
+};
+
+export const OBSTACLE_COLORS: Record<(typeof OBSTACLE_TYPES)[number], number> = {
+  spikes: 0xFF3B3B,
+  enemy: 0xD30062,
+};
+
+export const CHECKPOINT_POLE_COLOR = 0xCCCCCC;
+export const CHECKPOINT_FLAG_COLOR = 0x777777;
+export const CHECKPOINT_ACTIVE_FLAG_COLOR = 0x00FF7F;
+
+export const COLLECTIBLE_COLORS: Record<(typeof COLLECTIBLE_TYPES)[number], number> = {
+  coin: 0xFFB300,
+  gem: 0x00E5FF,
+};
+
+export const GOAL_POLE_COLOR = 0xFFFFFF;
+// The goal flag is a two-colour chequer.
+export const GOAL_FLAG_COLORS = [0xFFFFFF, 0x111111] as const;
+
+export const OBSTACLE_COLOR_DEFAULT = 0xFF3B3B;
+export const ENEMY_EYE_COLOR = 0xFFFFFF;
+export const PLAYER_COLOR = 0xFFDE00;
+
+// Drawn behind the level. Levels without a theme keep the default dark backdrop.
+export const THEME_BACKGROUND_COLORS: Record<(typeof LEVEL_THEMES)[number], number> = {
+  classic: 0x0B0B1A,
+  cavern: 0x1A130C,
+  sky: 0x10355C,
+  lava: 0x2E0A06,
+};
+
+export const toCssColor = (color: number): string => `#${color.toString(16).padStart(6, '0')}`;
@@ -0,0 +1,464 @@
+/**
+ * @fileOverview Offline, rule-based level generator.
+ *
+ * Produces levels in the same format as the Genkit flow without any network access,
+ * so it can stand in when the model is unavailable and runs in the browser as well as
+ * on the server. Output is fully determined by the input parameters and the seed.
+ * Levels always carry explicit start and end points; some end at the top of a tower
+ * rather than on the rightmost platform. Coins sit along the path and gems in spots
+ * that take a full jump to reach. Everything that makes a level harder scales with
+ * the input's difficulty rating; explicit platform type weights, a maximum gap and
+ * the verticality override what the rating would pick.
+ *
+ * Segments of longer and endless levels (see level-segments) are built the same way,
+ * starting from their entry joint and climbing or dropping onto their exit joint at
+ * the end.
+ *
+ * - generateProceduralLevel - Builds a level for the given input and seed.
+ * - generateProceduralLevelOutput - Same, in the Genkit flow's output shape.
+ * - generateProceduralSegment - Builds one segment of a level for its contract.
+ * - generateProceduralSegmentOutput - Same, in the Genkit flow's output shape.
+ */
+
+import type { GenerateLevelInput, GenerateLevelOutput } from '@/ai/flows/generate-level';
+import { parseLevelData, formatLevelIssues, PLATFORM_TYPES, type Level } from '@/lib/game/level-schema';
+import { repairReachability } from '@/lib/game/level-repair';
+import { getJumpReach, MAX_JUMP_HEIGHT } from '@/lib/game/solvability';
+import { getMobileMoveRange } from '@/lib/game/engine';
+import { createRandom, type Random } from '@/lib/game/random';
+import { getDifficultyProgress, getDifficultyTuning } from '@/lib/game/difficulty';
+import { lerp } from '@/lib/game/fixed-step';
+import { fitSegmentToContract, JOINT_WIDTH, type SegmentContract } from '@/lib/game/level-segments';
+import { DEFAULT_PLATFORM_MOVE_RANGE, DEFAULT_ENEMY_SIZE, DEFAULT_SPIKES_HEIGHT, DEFAULT_PLATFORM_HEIGHT, COLLECTIBLE_SIZE, PLAYER_HEIGHT } from '@/lib/game/constants';
+
+type PlatformType = (typeof PLATFORM_TYPES)[number];
+type LevelPlatform = Level['platforms'][number];
+
+interface DifficultyProfile {
+  // Fraction of the maximum safe gap that gaps are drawn from.
+  gapFill: [number, number];
+  // Height gained per jump; negative values are drops.
+  rise: [number, number];
+  width: [number, number];
+  typeWeights: Record<PlatformType, number>;
+  // Chance of starting a run of stairs instead of a single platform.
+  stairsChance: number;
+  // Slack kept inside the player's limits.
+  safetyMargin: number;
+  // Platforms between checkpoints; harder levels make the player replay more.
+  checkpointInterval: number;
+  // Chance of ending the level with a climb up a tower instead of a single goal platform.
+  towerChance: number;
+  // Gems hidden in hard-to-reach spots per level.
+  gems: number;
+  // Chance of a platform carrying an obstacle, before the obstacle density is applied.
+  obstacleChance: number;
+  // Widest horizontal gap allowed, on top of the player's own limits.
+  maxGap: number;
+  // Scales the height gained or lost between platforms.
+  riseScale: number;
+}
+
+// The profile at either end of the difficulty scale; ratings in between interpolate.
+const GENTLEST_PROFILE = {
+  rise: [-40, 30],
+  width: [50, 90],
+  dynamicTypeWeights: { mobile: 1, vertical_mobile: 1, timed: 1, breakable: 1 },
+  stairsChance: 0.08,
+  safetyMargin: 16,
+  checkpointInterval: 10,
+  towerChance: 0,
+  gems: 1,
+};
+const HARDEST_PROFILE: typeof GENTLEST_PROFILE = {
+  rise: [-60, 60],
+  width: [30, 60],
+  dynamicTypeWeights: { mobile: 3, vertical_mobile: 2, timed: 3, breakable: 3 },
+  stairsChance: 0.12,
+  safetyMargin: 8,
+  checkpointInterval: 25,
+  towerChance: 0.3,
+  gems: 3,
+};
+
+const AVERAGE_STAIR_STEPS = 4;
+// Some standard platforms are kept however hard the level is.
+const MAX_DYNAMIC_SHARE = 0.9;
+
+const lerpRange = (from: number[], to: number[], t: number): [number, number] => [lerp(from[0], to[0], t), lerp(from[1], to[1], t)];
+
+const VERTICALITY_RISE_SCALE: Record<NonNullable<GenerateLevelInput['verticality']>, number> = {
+  flat: 0.3,
+  normal: 1,
+  steep: 1.5,
+};
+const STEEP_TOWER_CHANCE_BONUS = 0.3;
+
+// Platform types that are left out still need a weight of zero for `random.weighted`.
+function getRequestedTypeWeights(weights: NonNullable<GenerateLevelInput['platformTypeWeights']>): Record<PlatformType, number> {
+  const requested = Object.fromEntries(PLATFORM_TYPES.map(type => [type, Math.max(weights[type] ?? 0, 0)])) as Record<PlatformType, number>;
+  // With every type left out, the level is built from standard platforms.
+  return Object.values(requested).some(weight => weight > 0) ? requested : { ...requested, standard: 1 };
+}
+
+function getDifficultyProfile(input: GenerateLevelInput): DifficultyProfile {
+  const t = getDifficultyProgress(input.difficultyRating);
+  const tuning = getDifficultyTuning(input.difficultyRating);
+  const gentle = GENTLEST_PROFILE;
+  const hardest = HARDEST_PROFILE;
+  const dynamicWeights = Object.fromEntries(
+    Object.entries(gentle.dynamicTypeWeights).map(([type, weight]) =>
+      [type, lerp(weight, hardest.dynamicTypeWeights[type as keyof typeof hardest.dynamicTypeWeights], t)]),
+  ) as typeof gentle.dynamicTypeWeights;
+  const dynamicTotal = Object.values(dynamicWeights).reduce((sum, weight) => sum + weight, 0);
+  const stairsChance = lerp(gentle.stairsChance, hardest.stairsChance, t);
+  // Stairs are all standard, so the platforms placed one at a time make up the
+  // level's dynamic share on their own; standard platforms take whatever they leave.
+  const singleShare = (1 - stairsChance) / (1 - stairsChance + AVERAGE_STAIR_STEPS * stairsChance);
+  const dynamicShare = Math.min(tuning.dynamicPlatformRatio / singleShare, MAX_DYNAMIC_SHARE);
+  const standard = dynamicTotal * (1 - dynamicShare) / dynamicShare;
+  const verticality = input.verticality ?? 'normal';
+  const towerChance = lerp(gentle.towerChance, hardest.towerChance, t);
+
+  return {
+    gapFill: tuning.gapFill,
+    rise: lerpRange(gentle.rise, hardest.rise, t),
+    width: lerpRange(gentle.width, hardest.width, t),
+    typeWeights: input.platformTypeWeights ? getRequestedTypeWeights(input.platformTypeWeights) : { standard, ...dynamicWeights },
+    stairsChance,
+    safetyMargin: Math.round(lerp(gentle.safetyMargin, hardest.safetyMargin, t)),
+    checkpointInterval: Math.round(lerp(gentle.checkpointInterval, hardest.checkpointInterval, t)),
+    towerChance: verticality === 'flat' ? 0 : verticality === 'steep' ? Math.min(towerChance + STEEP_TOWER_CHANCE_BONUS, 1) : towerChance,
+    gems: Math.round(lerp(gentle.gems, hardest.gems, t)),
+    // Likewise only single platforms carry obstacles.
+    obstacleChance: tuning.obstacleChance / singleShare,
+    maxGap: input.maxGap ?? Infinity,
+    riseScale: VERTICALITY_RISE_SCALE[verticality],
+  };
+}
+
+const PLATFORM_DENSITY_GAP_SCALE: Record<GenerateLevelInput['platformDensity'], number> = {
+  sparse: 1.15,
+  normal: 1,
+  dense: 0.8,
+};
+
+const OBSTACLE_DENSITY_SCALE: Record<GenerateLevelInput['obstacleDensity'], number> = {
+  low: 0.5,
+  medium: 1,
+  high: 1.5,
+};
+
+const MAX_GAP_FILL = 0.92;
+const START_PLATFORM: LevelPlatform = { x: 0, y: 120, width: 60, type: 'standard' };
+const GOAL_PLATFORM_WIDTH = 60;
+// Keeps the level from drifting too far up or down.
+const MIN_PLATFORM_Y = -250;
+const MAX_PLATFORM_Y = 250;
+const MIN_ENEMY_PLATFORM_WIDTH = 60;
+const MIN_SPIKED_PLATFORM_WIDTH = 70;
+// The platform types obstacles can stand on.
+const OBSTACLE_PLATFORM_TYPES = ['standard', 'mobile'] as const;
+const SPIKES_WIDTH = 16;
+const TOWER_PLATFORM_WIDTH = 40;
+const COIN_ROW_CHANCE = 0.3;
+const COIN_SPACING = 14;
+// Coins hover at chest height so walking along the platform picks them up.
+const COIN_HOVER = PLAYER_HEIGHT - 2;
+// Gems sit high enough above their platform that only a near-full jump reaches them.
+const GEM_HOVER = MAX_JUMP_HEIGHT + PLAYER_HEIGHT - 6;
+// Tower floors two storeys apart must leave head room for the jump between them.
+const TOWER_MIN_RISE = 58;
+// Steps climbing towards a segment's exit joint rise at most this much.
+const EXIT_CLIMB_STEP = 40;
+
+// How far a platform's position can wander horizontally and vertically.
+function getMovement(platform: LevelPlatform): { x: number; y: number } {
+  return {
+    x: platform.type === 'mobile' ? getMobileMoveRange(platform.width) : 0,
+    y: platform.type === 'vertical_mobile' ? DEFAULT_PLATFORM_MOVE_RANGE : 0,
+  };
+}
+
+/**
+ * Places `next` after `prev` so the jump works even in the least favourable phase of
+ * either platform's movement. Unless `bounded` is false, a rise that would leave the
+ * level's vertical bounds is turned into a drop and vice versa.
+ */
+function placeAfter(prev: LevelPlatform, next: Omit<LevelPlatform, 'x' | 'y'>, rise: number, fill: number, profile: DifficultyProfile, bounded = true): LevelPlatform {
+  const prevMovement = getMovement(prev);
+  const nextMovement = getMovement({ ...next, x: 0, y: 0 });
+  const verticalSlack = prevMovement.y + nextMovement.y;
+
+  const maxRise = MAX_JUMP_HEIGHT - profile.safetyMargin - verticalSlack;
+  let safeRise = Math.min(rise, maxRise);
+  let y = prev.y - safeRise;
+  if (bounded && (y < MIN_PLATFORM_Y || y > MAX_PLATFORM_Y)) {
+    safeRise = Math.min(-safeRise, maxRise);
+    y = prev.y - safeRise;
+  }
+
+  const reach = (getJumpReach(safeRise + verticalSlack) ?? 0) - profile.safetyMargin;
+  const maxGap = Math.max(Math.min(reach, profile.maxGap) - prevMovement.x - nextMovement.x, 0);
+  const gap = Math.max(Math.round(maxGap * fill), nextMovement.x + prevMovement.x > 0 ? 4 : 0);
+
+  return { ...next, x: Math.round(prev.x + prev.width + nextMovement.x + gap), y: Math.round(y) };
+}
+
+interface PlatformLayout {
+  platforms: LevelPlatform[];
+  // Indices of the platforms built to carry an obstacle.
+  obstacleSpots: Set<number>;
+}
+
+function generatePlatforms(input: GenerateLevelInput, profile: DifficultyProfile, random: Random, segment?: SegmentContract): PlatformLayout {
+  const gapScale = PLATFORM_DENSITY_GAP_SCALE[input.platformDensity];
+  const drawFill = () => Math.min(random.float(profile.gapFill[0], profile.gapFill[1]) * gapScale, MAX_GAP_FILL);
+  const drawWidth = () => random.int(profile.width[0], profile.width[1]);
+  const obstacleChance = profile.obstacleChance * OBSTACLE_DENSITY_SCALE[input.obstacleDensity];
+  const obstacleSpots = new Set<number>();
+  const obstaclePlatformTypes = OBSTACLE_PLATFORM_TYPES.filter(type => profile.typeWeights[type] > 0);
+  const drawRise = (min: number, max: number) => random.float(min, max) * profile.riseScale;
+
+  const exitY = segment?.exitY ?? null;
+  // Odd so the tower's top floor stands back over its base, left of the floors between.
+  // Segments that hand over to another end on their exit joint instead.
+  const towerFloors = exitY === null && profile.towerChance > 0 && random.chance(profile.towerChance) ? random.pick([3, 5]) : 0;
+  const bodyLength = input.levelLength - Math.max(towerFloors, 1);
+
+  const platforms: LevelPlatform[] = [segment ? { x: 0, y: segment.entryY, width: JOINT_WIDTH, type: 'standard' } : START_PLATFORM];
+  while (platforms.length < bodyLength) {
+    const prev = platforms[platforms.length - 1];
+
+    if (random.chance(profile.stairsChance)) {
+      const remaining = bodyLength - platforms.length;
+      const steps = Math.min(random.int(3, 5), remaining);
+      const stepRise = random.pick([-1, 1]) * random.int(20, 35) * profile.riseScale;
+      let stepFrom = prev;
+      for (let i = 0; i < steps; i++) {
+        stepFrom = placeAfter(stepFrom, { width: random.int(30, 45), type: 'standard' }, stepRise, 0.35, profile);
+        platforms.push(stepFrom);
+      }
+      continue;
+    }
+
+    // Platforms that will carry an obstacle are made wide enough to get past it.
+    const carriesObstacle = random.chance(obstacleChance) && obstaclePlatformTypes.length > 0;
+    const type: PlatformType = carriesObstacle ? random.pick(obstaclePlatformTypes) : random.weighted(profile.typeWeights);
+    const width = carriesObstacle ? Math.max(drawWidth(), MIN_SPIKED_PLATFORM_WIDTH) : drawWidth();
+    const rise = drawRise(profile.rise[0], profile.rise[1]);
+    if (carriesObstacle) obstacleSpots.add(platforms.length);
+    platforms.push(placeAfter(prev, { width, type }, rise, drawFill(), profile));
+  }
+
+  const last = platforms[platforms.length - 1];
+  if (exitY !== null) return { platforms: [...platforms, ...climbToExit(last, exitY, profile)], obstacleSpots };
+  if (towerFloors > 0) {
+    const tower = generateTower(last, towerFloors, profile, random);
+    if (tower) return { platforms: [...platforms, ...tower], obstacleSpots };
+  }
+  const goalRise = drawRise(profile.rise[0], Math.min(profile.rise[1], 20));
+  platforms.push(placeAfter(last, { width: GOAL_PLATFORM_WIDTH, type: 'standard' }, goalRise, drawFill(), profile));
+  return { platforms, obstacleSpots };
+}
+
+/**
+ * Builds a zigzag tower of standard platforms after `prev`, alternating between two
+ * columns while climbing. The last floor is the goal. Returns null when the tower
+ * would climb out of bounds.
+ */
+function generateTower(prev: LevelPlatform, floors: number, profile: DifficultyProfile, random: Random): LevelPlatform[] | null {
+  const rise = random.float(TOWER_MIN_RISE, MAX_JUMP_HEIGHT - profile.safetyMargin);
+  const base = placeAfter(prev, { width: TOWER_PLATFORM_WIDTH, type: 'standard' }, 0, 0.4, profile);
+  if (base.y - (floors - 1) * rise < MIN_PLATFORM_Y) return null;
+
+  const gap = Math.max(Math.min(Math.round(((getJumpReach(rise) ?? 0) - profile.safetyMargin) * 0.4), profile.maxGap), 10);
+  const tower = [base];
+  for (let floor = 1; floor < floors; floor++) {
+    const x = floor % 2 === 1 ? base.x + TOWER_PLATFORM_WIDTH + gap : base.x;
+    tower.push({ x, y: Math.round(base.y - floor * rise), width: TOWER_PLATFORM_WIDTH, type: 'standard' });
+  }
+  return tower;
+}
+
+/**
+ * Places the platforms from `prev` to a segment's exit joint at `exitY`: standard steps
+ * while the exit is too high for one jump, then the exit itself. Moving platforms leave
+ * less height to jump, so a climb never starts from one. The joint is always within
+ * the level's bounds, so the climb heads straight for it.
+ */
+function climbToExit(prev: LevelPlatform, exitY: number, profile: DifficultyProfile): LevelPlatform[] {
+  const steps: LevelPlatform[] = [];
+  let from = prev;
+  while (from.y - exitY > (from.type === 'standard' ? EXIT_CLIMB_STEP : 0)) {
+    from = placeAfter(from, { width: TOWER_PLATFORM_WIDTH, type: 'standard' }, Math.min(from.y - exitY, EXIT_CLIMB_STEP), 0.35, profile, false);
+    steps.push(from);
+  }
+  return [...steps, placeAfter(from, { width: JOINT_WIDTH, type: 'standard' }, from.y - exitY, 0.35, profile, false)];
+}
+
+// Centre of a platform's top surface, for the level's start and end points.
+const topCenter = (platform: LevelPlatform) => ({ x: Math.round(platform.x + platform.width / 2), y: platform.y });
+
+/**
+ * Flags a standard platform as a checkpoint roughly every `interval` platforms, using
+ * the next standard platform when the ideal one is not.
+ */
+function placeCheckpoints(platforms: LevelPlatform[], interval: number): LevelPlatform[] {
+  let sinceCheckpoint = 0;
+  return platforms.map((platform, index) => {
+    sinceCheckpoint++;
+    const isEndpoint = index === 0 || index === platforms.length - 1;
+    // Not worth one just before the goal.
+    const nearGoal = platforms.length - 1 - index < interval / 2;
+    if (isEndpoint || nearGoal || platform.type !== 'standard' || sinceCheckpoint < interval) return platform;
+    sinceCheckpoint = 0;
+    return { ...platform, checkpoint: true };
+  });
+}
+
+function generateObstacles(platforms: LevelPlatform[], obstacleSpots: Set<number>, random: Random): Level['obstacles'] {
+  const obstacles: Level['obstacles'] = [];
+
+  platforms.forEach((platform, index) => {
+    // Never on the first or last platform, nor on a checkpoint.
+    if (!obstacleSpots.has(index) || index === 0 || index === platforms.length - 1 || platform.checkpoint) return;
+
+    const canHoldEnemy = (platform.type === 'standard' || platform.type === 'mobile') && platform.width >= MIN_ENEMY_PLATFORM_WIDTH;
+    const canHoldSpikes = platform.type === 'standard' && platform.width >= MIN_SPIKED_PLATFORM_WIDTH;
+
+    if (canHoldEnemy && (!canHoldSpikes || random.chance(0.5))) {
+      obstacles.push({
+        type: 'enemy',
+        x: Math.round(platform.x + platform.width / 2 - DEFAULT_ENEMY_SIZE / 2),
+        y: platform.y - DEFAULT_ENEMY_SIZE,
+        width: DEFAULT_ENEMY_SIZE,
+        height: DEFAULT_ENEMY_SIZE,
+      });
+    } else if (canHoldSpikes) {
+      // Centred so there is room to land on either side.
+      obstacles.push({
+        type: 'spikes',
+        x: Math.round(platform.x + platform.width / 2 - SPIKES_WIDTH / 2),
+        y: platform.y - DEFAULT_SPIKES_HEIGHT,
+        width: SPIKES_WIDTH,
+        height: DEFAULT_SPIKES_HEIGHT,
+      });
+    }
+  });
+  return obstacles;
+}
+
+// Whether anything solid or dangerous is in the column above a platform, up to `height`.
+function isColumnClear(platform: LevelPlatform, height: number, platforms: LevelPlatform[], obstacles: Level['obstacles']): boolean {
+  const top = platform.y - height;
+  const overlaps = (x: number, width: number, y: number, h: number) =>
+    x < platform.x + platform.width && x + width > platform.x && y < platform.y && y + h > top;
+  return !platforms.some(p => p !== platform && overlaps(p.x, p.width, p.y, DEFAULT_PLATFORM_HEIGHT))
+    && !obstacles.some(o => overlaps(o.x, o.width, o.y, o.height));
+}
+
+function generateCollectibles(
+  profile: DifficultyProfile,
+  platforms: LevelPlatform[],
+  obstacles: Level['obstacles'],
+  random: Random,
+): NonNullable<Level['collectibles']> {
+  const collectibles: NonNullable<Level['collectibles']> = [];
+  // Only still platforms, so collectibles do not end up floating out of reach.
+  const candidates = platforms.slice(1, -1).filter(p => p.type === 'standard' || p.type === 'breakable');
+
+  candidates.forEach(platform => {
+    if (!random.chance(COIN_ROW_CHANCE) || !isColumnClear(platform, COIN_HOVER + COLLECTIBLE_SIZE, platforms, obstacles)) return;
+    const count = Math.min(random.int(1, 3), Math.floor(platform.width / COIN_SPACING));
+    const rowStart = platform.x + platform.width / 2 - ((count - 1) * COIN_SPACING + COLLECTIBLE_SIZE) / 2;
+    for (let i = 0; i < count; i++) {
+      collectibles.push({ type: 'coin', x: Math.round(rowStart + i * COIN_SPACING), y: platform.y - COIN_HOVER });
+    }
+  });
+
+  const gemSpots = candidates.filter(p => p.type === 'standard' && isColumnClear(p, GEM_HOVER + COLLECTIBLE_SIZE, platforms, obstacles));
+  for (let i = 0; i < profile.gems && gemSpots.length > 0; i++) {
+    const [platform] = gemSpots.splice(random.int(0, gemSpots.length - 1), 1);
+    const x = Math.round(platform.x + platform.width / 2 - COLLECTIBLE_SIZE / 2);
+    collectibles.push({ type: 'gem', x, y: Math.round(platform.y - GEM_HOVER) });
+  }
+  return collectibles;
+}
+
+export interface ProceduralLevelResult {
+  level: Level;
+  // Reachability fixes the safety net had to apply; normally empty.
+  repairs: string[];
+}
+
+export function generateProceduralLevel(input: GenerateLevelInput, seed: number): ProceduralLevelResult {
+  const random = createRandom(seed);
+  const profile = getDifficultyProfile(input);
+  const layout = generatePlatforms(input, profile, random);
+  const platforms = placeCheckpoints(layout.platforms, profile.checkpointInterval);
+  const obstacles = generateObstacles(platforms, layout.obstacleSpots, random);
+  const collectibles = generateCollectibles(profile, platforms, obstacles, random);
+
+  const validation = parseLevelData({
+    platforms,
+    obstacles,
+    collectibles,
+    startPoint: topCenter(platforms[0]),
+    endPoint: topCenter(platforms[platforms.length - 1]),
+    theme: input.theme,
+  });
+  if (!validation.success) {
+    throw new Error(`Procedural generator produced an invalid level: ${formatLevelIssues(validation.issues)}`);
+  }
+  const { level, repairs } = repairReachability(validation.level);
+  return { level, repairs };
+}
+
+// Wraps a procedural level in the same output shape the Genkit flow returns.
+export function generateProceduralLevelOutput(input: GenerateLevelInput, seed: number): GenerateLevelOutput {
+  const { level, repairs } = generateProceduralLevel(input, seed);
+  return {
+    levelData: JSON.stringify(level),
+    report: { attempts: 1, issues: [], repairs },
+  };
+}
+
+/**
+ * Builds one segment of a longer or endless level, laid out from x 0 at its entry.
+ * The segment's length comes from its contract rather than the input.
+ */
+export function generateProceduralSegment(input: GenerateLevelInput, contract: SegmentContract, seed: number): ProceduralLevelResult {
+  const random = createRandom(seed);
+  const segmentInput = { ...input, levelLength: contract.length };
+  const profile = getDifficultyProfile(segmentInput);
+  const layout = generatePlatforms(segmentInput, profile, random, contract);
+  const platforms = placeCheckpoints(layout.platforms, profile.checkpointInterval);
+  const obstacles = generateObstacles(platforms, layout.obstacleSpots, random);
+  const collectibles = generateCollectibles(profile, platforms, obstacles, random);
+
+  const validation = parseLevelData({
+    platforms,
+    obstacles,
+    collectibles,
+    startPoint: topCenter(platforms[0]),
+    endPoint: topCenter(platforms[platforms.length - 1]),
+    theme: input.theme,
+  });
+  if (!validation.success) {
+    throw new Error(`Procedural generator produced an invalid segment: ${formatLevelIssues(validation.issues)}`);
+  }
+  const fit = fitSegmentToContract(validation.level, contract);
+  if (!fit.ok) {
+    throw new Error(`Procedural generator produced a segment that breaks its contract: ${fit.problem}`);
+  }
+  return { level: fit.level, repairs: fit.repairs };
+}
+
+export function generateProceduralSegmentOutput(input: GenerateLevelInput, contract: SegmentContract, seed: number): GenerateLevelOutput {
+  const { level, repairs } = generateProceduralSegment(input, contract, seed);
+  return {
+    levelData: JSON.stringify(level),
+    report: { attempts: 1, issues: [], repairs },
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * @fileOverview Small seeded pseudo-random number generator (mulberry32).
+ *
+ * Level generation must be reproducible from a seed, so nothing in it may call
+ * Math.random directly.
+ */
+
+export interface Random {
+  // Uniform float in [0, 1).
+  next(): number;
+  // Uniform integer in [min, max], both inclusive.
+  int(min: number, max: number): number;
+  float(min: number, max: number): number;
+  chance(probability: number): boolean;
+  pick<T>(items: readonly T[]): T;
+  weighted<T extends string>(weights: Record<T, number>): T;
+}
+
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min, max) => {
+      min = Math.ceil(min);
+      max = Math.floor(max);
+      return Math.floor(next() * (max - min + 1)) + min;
+    },
+    float: (min, max) => min + next() * (max - min),
+    chance: probability => next() < probability,
+    pick: items => items[Math.floor(next() * items.length)],
+    weighted: weights => {
+      const entries = Object.entries(weights) as [keyof typeof weights, number][];
+      const total = entries.reduce((sum, [, weight]) => sum + Math.max(weight, 0), 0);
+      let roll = next() * total;
+      for (const [key, weight] of entries) {
+        roll -= Math.max(weight, 0);
+        if (roll < 0) return key;
+      }
+      return entries[entries.length - 1][0];
+    },
+  };
+}
+
+// A fresh 32-bit seed for callers that were not given one.
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// Seeds are shown and shared as short base-36 codes, e.g. "1Z141Z3".
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(36).toUpperCase();
+}
+
+export function parseSeed(code: string): number | null {
+  const trimmed = code.trim();
+  if (!/^[0-9a-z]{1,7}$/i.test(trimmed)) return null;
+  const seed = parseInt(trimmed, 36);
+  return seed <= 0xFFFFFFFF ? seed : null;
+}
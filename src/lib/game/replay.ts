@@ -0,0 +1,168 @@
+/**
+ * @fileOverview Input recordings and deterministic replays.
+ *
+ * The simulation is deterministic, so a run is fully described by its level and the
+ * input of every tick. Recordings keep each tick's input as a 4-bit mask, run-length
+ * encoded as runs of identical ticks; watching a replay re-simulates the run from the
+ * level. Replay files are JSON with the level and its seed alongside the input, and
+ * the level is checked with `parseLevelData` when read back in, as it is untrusted.
+ *
+ * - createInputRecording / recordInput - Collects a run's input tick by tick.
+ * - createReplay - A replay of a recorded run on a level.
+ * - serializeReplayFile / parseReplayFile - Replay <-> downloadable file.
+ * - createReplayPlayer / seekReplay - Re-simulates a replay up to any tick.
+ */
+
+import { z } from 'zod';
+import { parseLevelData, type Level } from '@/lib/game/level-schema';
+import { createWorld, step, type InputState, type World, type WorldEvent } from '@/lib/game/engine';
+import { SIMULATION_HZ } from '@/lib/game/constants';
+
+export const REPLAY_FILE_EXTENSION = '.replay.json';
+const REPLAY_FORMAT = 'shifting-pixel-replay';
+const REPLAY_FORMAT_VERSION = 1;
+// An hour of play. Watching a replay holds a byte per tick, so files claiming more are rejected.
+export const MAX_REPLAY_TICKS = 60 * 60 * SIMULATION_HZ;
+
+const INPUT_BITS: Record<keyof InputState, number> = { left: 1, right: 2, jump: 4, crouch: 8 };
+
+// A stretch of ticks with the same input: [input mask, tick count].
+export type InputRun = [mask: number, ticks: number];
+
+export interface InputRecording {
+  runs: InputRun[];
+  ticks: number;
+}
+
+export interface Replay {
+  level: Level;
+  // The seed of a generated level, for reference; the level itself is what is replayed.
+  seed?: number;
+  recording: InputRecording;
+}
+
+export type ReplayParseResult =
+  | { success: true; replay: Replay }
+  | { success: false; message: string };
+
+const toMask = (input: InputState): number =>
+  (Object.keys(INPUT_BITS) as (keyof InputState)[]).reduce((mask, key) => (input[key] ? mask | INPUT_BITS[key] : mask), 0);
+
+const fromMask = (mask: number): InputState => ({
+  left: (mask & INPUT_BITS.left) !== 0,
+  right: (mask & INPUT_BITS.right) !== 0,
+  jump: (mask & INPUT_BITS.jump) !== 0,
+  crouch: (mask & INPUT_BITS.crouch) !== 0,
+});
+
+export function createInputRecording(): InputRecording {
+  return { runs: [], ticks: 0 };
+}
+
+// Records the input of one simulation tick.
+export function recordInput(recording: InputRecording, input: InputState): void {
+  const mask = toMask(input);
+  const last = recording.runs[recording.runs.length - 1];
+  if (last && last[0] === mask) last[1]++;
+  else recording.runs.push([mask, 1]);
+  recording.ticks++;
+}
+
+export function createReplay(level: Level, recording: InputRecording, seed?: number): Replay {
+  return {
+    level,
+    ...(seed !== undefined ? { seed } : {}),
+    recording: { runs: recording.runs.map(([mask, ticks]): InputRun => [mask, ticks]), ticks: recording.ticks },
+  };
+}
+
+// Runs are written as one hex digit for the mask followed by the tick count in base 36.
+const encodeRuns = (runs: InputRun[]): string => runs.map(([mask, ticks]) => mask.toString(16) + ticks.toString(36)).join(',');
+
+function decodeRuns(text: string): InputRun[] {
+  if (text === '') return [];
+  return text.split(',').map(run => {
+    const ticks = parseInt(run.slice(1), 36);
+    if (!/^[0-9a-f][0-9a-z]+$/.test(run) || ticks === 0) throw new Error(`Unreadable input "${run}".`);
+    return [parseInt(run.charAt(0), 16), ticks];
+  });
+}
+
+const ReplayFileSchema = z.object({
+  format: z.literal(REPLAY_FORMAT),
+  version: z.number().int(),
+  seed: z.number().int().nonnegative().optional(),
+  level: z.unknown(),
+  ticks: z.number().int().nonnegative().max(MAX_REPLAY_TICKS),
+  inputs: z.string(),
+});
+
+export function serializeReplayFile(replay: Replay): string {
+  return JSON.stringify({
+    format: REPLAY_FORMAT,
+    version: REPLAY_FORMAT_VERSION,
+    ...(replay.seed !== undefined ? { seed: replay.seed } : {}),
+    level: replay.level,
+    ticks: replay.recording.ticks,
+    inputs: encodeRuns(replay.recording.runs),
+  });
+}
+
+export function parseReplayFile(text: string): ReplayParseResult {
+  const fail = (message: string): ReplayParseResult => ({ success: false, message });
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return fail('The file is not valid JSON.');
+  }
+  const file = ReplayFileSchema.safeParse(data);
+  if (!file.success) {
+    const tooLong = file.error.issues.some(issue => issue.path[0] === 'ticks' && issue.code === 'too_big');
+    return fail(tooLong ? 'The replay is longer than an hour.' : 'The file is not a replay.');
+  }
+  if (file.data.version !== REPLAY_FORMAT_VERSION) return fail(`Unsupported replay version ${file.data.version}.`);
+
+  const level = parseLevelData(file.data.level);
+  if (!level.success) return fail('The replay\'s level is invalid.');
+  let runs: InputRun[];
+  try {
+    runs = decodeRuns(file.data.inputs);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+  const ticks = runs.reduce((total, [, count]) => total + count, 0);
+  if (ticks !== file.data.ticks) return fail(`The replay's input covers ${ticks} ticks instead of ${file.data.ticks}.`);
+  return { success: true, replay: { level: level.level, ...(file.data.seed !== undefined ? { seed: file.data.seed } : {}), recording: { runs, ticks } } };
+}
+
+export interface ReplayPlayer {
+  replay: Replay;
+  // The input mask of every tick.
+  inputs: Uint8Array;
+  world: World;
+}
+
+export function createReplayPlayer(replay: Replay): ReplayPlayer {
+  const inputs = new Uint8Array(replay.recording.ticks);
+  let tick = 0;
+  replay.recording.runs.forEach(([mask, count]) => {
+    inputs.fill(mask, tick, tick + count);
+    tick += count;
+  });
+  return { replay, inputs, world: createWorld(replay.level) };
+}
+
+/**
+ * Steps the replay's world to `tick`, clamped to the recording, re-simulating from the
+ * start when the tick lies behind the world. Returns the events of the ticks stepped.
+ */
+export function seekReplay(player: ReplayPlayer, tick: number): WorldEvent[] {
+  const target = Math.min(Math.max(Math.round(tick), 0), player.inputs.length);
+  if (target < player.world.tick) player.world = createWorld(player.replay.level);
+  const events: WorldEvent[] = [];
+  while (player.world.tick < target) {
+    events.push(...step(player.world, fromMask(player.inputs[player.world.tick])));
+  }
+  return events;
+}
@@ -0,0 +1,251 @@
+/**
+ * @fileOverview Persistence for the active run, player settings and personal bests.
+ *
+ * The run (current level, level number, difficulty progression, score, deaths and
+ * time on the current level) and the settings are kept in localStorage so a reload can
+ * resume exactly where the player left off. Stored data is validated on load and
+ * discarded when it does not match, e.g. after a format change.
+ *
+ * - loadSavedRun / saveRun / updateSavedRun - The active run.
+ * - loadSettings / saveSettings - Player settings, kept independently of any run.
+ * - getLevelKey - Identifies a level by its content.
+ * - loadPersonalBest / recordPersonalBest - Best time, score and deaths per level.
+ * - recordEndlessBest - Furthest distance and best score over all endless runs.
+ * - loadTimeTrialBest / recordTimeTrialBest - Fastest time-trial run per level, with its splits.
+ */
+
+import { z } from 'zod';
+import type { GeneratedLevel } from '@/app/actions';
+import type { EndlessResult } from '@/lib/game/endless-run';
+import type { TimeTrialRun } from '@/lib/game/time-trial';
+import type { ImportedLevel, LevelSource } from '@/types';
+import { parseLevelData } from '@/lib/game/level-schema';
+import { DIFFICULTY_PRESETS, MIN_DIFFICULTY_RATING, MAX_DIFFICULTY_RATING } from '@/lib/game/difficulty';
+
+const RUN_STORAGE_KEY = 'shifting-pixel:run';
+const SETTINGS_STORAGE_KEY = 'shifting-pixel:settings';
+const BESTS_STORAGE_KEY = 'shifting-pixel:bests';
+const ENDLESS_BEST_STORAGE_KEY = 'shifting-pixel:endless-best';
+const TIME_TRIALS_STORAGE_KEY = 'shifting-pixel:time-trials';
+// Oldest entries are dropped beyond this, as every level played gets one.
+const MAX_PERSONAL_BESTS = 200;
+const SAVE_FORMAT_VERSION = 1;
+
+const DifficultySchema = z.enum(['easy', 'medium', 'hard']);
+const DifficultyRatingSchema = z.number().int().min(MIN_DIFFICULTY_RATING).max(MAX_DIFFICULTY_RATING);
+
+const SavedLevelSchema = z.union([
+  z.object({
+    levelData: z.string(),
+    source: z.enum(['ai', 'procedural']),
+    seed: z.number().int().nonnegative(),
+    // Only the difficulty is checked; the rest is the generator's own input. Levels saved
+    // before difficulty ratings existed get their band's preset.
+    input: z.object({ difficulty: DifficultySchema, difficultyRating: DifficultyRatingSchema.optional() })
+      .passthrough()
+      .transform(input => ({ ...input, difficultyRating: input.difficultyRating ?? DIFFICULTY_PRESETS[input.difficulty] })),
+    report: z.unknown().optional(),
+    levelId: z.string().optional(),
+  }),
+  z.object({
+    levelData: z.string(),
+    source: z.enum(['file', 'link', 'editor']),
+  }),
+]);
+
+const RunStatsSchema = z.object({
+  deaths: z.number().int().nonnegative(),
+  // Time spent on the current level.
+  elapsedSeconds: z.number().nonnegative(),
+});
+export type RunStats = z.infer<typeof RunStatsSchema>;
+
+const SavedRunSchema = RunStatsSchema.extend({
+  version: z.literal(SAVE_FORMAT_VERSION),
+  savedAt: z.number(),
+  level: SavedLevelSchema,
+  levelNumber: z.number().int().positive(),
+  difficultyRating: DifficultyRatingSchema.optional(),
+  // Runs saved before difficulty ratings existed only have the band.
+  difficulty: DifficultySchema.optional(),
+  levelSource: z.enum(['ai', 'procedural']),
+  // Score of the levels completed so far; absent in runs saved before scoring existed.
+  score: z.number().int().nonnegative().default(0),
+});
+
+export interface SavedRun extends RunStats {
+  savedAt: number;
+  level: GeneratedLevel | ImportedLevel;
+  levelNumber: number;
+  difficultyRating: number;
+  levelSource: LevelSource;
+  score: number;
+}
+
+const SettingsSchema = z.object({
+  volume: z.number().min(0).max(1),
+  // Whether each level's difficulty adapts to how the player did on the one before.
+  adaptiveDifficulty: z.boolean().default(true),
+});
+export type GameSettings = z.infer<typeof SettingsSchema>;
+
+export const DEFAULT_SETTINGS: GameSettings = { volume: 1, adaptiveDifficulty: true };
+
+const PersonalBestSchema = z.object({
+  bestTime: z.number().nonnegative(),
+  bestScore: z.number().int().nonnegative(),
+  fewestDeaths: z.number().int().nonnegative(),
+  updatedAt: z.number(),
+});
+export type PersonalBest = z.infer<typeof PersonalBestSchema>;
+
+const PersonalBestsSchema = z.record(PersonalBestSchema);
+
+const EndlessBestSchema = z.object({
+  bestDistance: z.number().int().nonnegative(),
+  bestScore: z.number().int().nonnegative(),
+  updatedAt: z.number(),
+});
+export type EndlessBest = z.infer<typeof EndlessBestSchema>;
+
+const TickCountSchema = z.number().int().nonnegative();
+const TimeTrialBestSchema = z.object({
+  ticks: TickCountSchema,
+  splits: z.array(z.object({ checkpoint: z.number().int().positive(), ticks: TickCountSchema })),
+  updatedAt: z.number(),
+});
+export type TimeTrialBest = z.infer<typeof TimeTrialBestSchema>;
+
+const TimeTrialBestsSchema = z.record(TimeTrialBestSchema);
+
+export interface LevelAttempt {
+  elapsedSeconds: number;
+  score: number;
+  deaths: number;
+}
+
+// localStorage is unavailable during server rendering and can throw (quota, privacy mode).
+function readJson(key: string): unknown {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    console.error(`Could not read ${key} from localStorage:`, error);
+    return null;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Could not write ${key} to localStorage:`, error);
+  }
+}
+
+export function loadSavedRun(): SavedRun | null {
+  const parsed = SavedRunSchema.safeParse(readJson(RUN_STORAGE_KEY));
+  if (!parsed.success || !parseLevelData(parsed.data.level.levelData).success) return null;
+  const { version, difficulty, difficultyRating, ...run } = parsed.data;
+  return { ...run, difficultyRating: difficultyRating ?? DIFFICULTY_PRESETS[difficulty ?? 'medium'] } as SavedRun;
+}
+
+export function saveRun(run: Omit<SavedRun, 'savedAt'>) {
+  writeJson(RUN_STORAGE_KEY, { ...run, version: SAVE_FORMAT_VERSION, savedAt: Date.now() });
+}
+
+// Records progress on the current level without rewriting the rest of the run.
+export function updateSavedRun(stats: RunStats) {
+  const run = loadSavedRun();
+  if (run) saveRun({ ...run, ...stats });
+}
+
+export function loadSettings(): GameSettings {
+  const parsed = SettingsSchema.safeParse(readJson(SETTINGS_STORAGE_KEY));
+  return parsed.success ? parsed.data : DEFAULT_SETTINGS;
+}
+
+// Settings are changed from different screens, so each save keeps the ones it does not set.
+export function saveSettings(settings: Partial<GameSettings>) {
+  writeJson(SETTINGS_STORAGE_KEY, { ...loadSettings(), ...settings });
+}
+
+// FNV-1a hash of the level data: stable across sessions and short enough for a storage key.
+export function getLevelKey(levelData: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < levelData.length; i++) {
+    hash ^= levelData.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function loadPersonalBests(): Record<string, PersonalBest> {
+  const parsed = PersonalBestsSchema.safeParse(readJson(BESTS_STORAGE_KEY));
+  return parsed.success ? parsed.data : {};
+}
+
+export function loadPersonalBest(levelData: string): PersonalBest | null {
+  return loadPersonalBests()[getLevelKey(levelData)] ?? null;
+}
+
+/**
+ * Merges a finished attempt into the level's personal best and returns the best as
+ * it was before, for comparison.
+ */
+export function recordPersonalBest(levelData: string, attempt: LevelAttempt): PersonalBest | null {
+  const bests = loadPersonalBests();
+  const key = getLevelKey(levelData);
+  const previous = bests[key] ?? null;
+  bests[key] = {
+    bestTime: Math.min(previous?.bestTime ?? Infinity, attempt.elapsedSeconds),
+    bestScore: Math.max(previous?.bestScore ?? 0, attempt.score),
+    fewestDeaths: Math.min(previous?.fewestDeaths ?? Infinity, attempt.deaths),
+    updatedAt: Date.now(),
+  };
+  const kept = Object.entries(bests)
+    .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_PERSONAL_BESTS);
+  writeJson(BESTS_STORAGE_KEY, Object.fromEntries(kept));
+  return previous;
+}
+
+// Merges a finished endless run into the best one and returns the best as it was before.
+export function recordEndlessBest(result: EndlessResult): EndlessBest | null {
+  const parsed = EndlessBestSchema.safeParse(readJson(ENDLESS_BEST_STORAGE_KEY));
+  const previous = parsed.success ? parsed.data : null;
+  writeJson(ENDLESS_BEST_STORAGE_KEY, {
+    bestDistance: Math.max(previous?.bestDistance ?? 0, result.distance),
+    bestScore: Math.max(previous?.bestScore ?? 0, result.score.total),
+    updatedAt: Date.now(),
+  });
+  return previous;
+}
+
+function loadTimeTrialBests(): Record<string, TimeTrialBest> {
+  const parsed = TimeTrialBestsSchema.safeParse(readJson(TIME_TRIALS_STORAGE_KEY));
+  return parsed.success ? parsed.data : {};
+}
+
+export function loadTimeTrialBest(levelData: string): TimeTrialBest | null {
+  return loadTimeTrialBests()[getLevelKey(levelData)] ?? null;
+}
+
+/**
+ * Keeps a finished time-trial run, splits included, when it beats the level's best and
+ * returns the best as it was before, for comparison.
+ */
+export function recordTimeTrialBest(levelData: string, run: TimeTrialRun): TimeTrialBest | null {
+  const bests = loadTimeTrialBests();
+  const key = getLevelKey(levelData);
+  const previous = bests[key] ?? null;
+  if (previous && previous.ticks <= run.ticks) return previous;
+  bests[key] = { ticks: run.ticks, splits: run.splits, updatedAt: Date.now() };
+  const kept = Object.entries(bests)
+    .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_PERSONAL_BESTS);
+  writeJson(TIME_TRIALS_STORAGE_KEY, Object.fromEntries(kept));
+  return previous;
+}
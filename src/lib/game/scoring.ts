@@ -0,0 +1,86 @@
+/**
+ * @fileOverview Level and run scoring.
+ *
+ * A level's score is the value of the collectibles picked up, plus a completion bonus
+ * that shrinks the longer the level takes, minus a penalty per death. The run score
+ * is the sum of the scores of the levels completed so far.
+ *
+ * - getCollectibleValue - Points for one collectible.
+ * - getCollectedScore - Points for the collectibles picked up so far.
+ * - calculateLevelScore - Score for a level, finished or in progress.
+ */
+
+import type { Collectible } from '@/types';
+import type { DeathCause } from '@/lib/game/engine';
+
+export const COLLECTIBLE_VALUES: Record<string, number> = {
+  coin: 10,
+  gem: 50,
+};
+
+export const LEVEL_COMPLETE_BONUS = 500;
+// The time bonus runs out after this many seconds on the level.
+export const TIME_BONUS_SECONDS = 120;
+export const TIME_BONUS_PER_SECOND = 5;
+export const DEATH_PENALTY = 50;
+
+export interface LevelScoreInput {
+  collectibleScore: number;
+  elapsedSeconds: number;
+  deaths: number;
+  completed: boolean;
+}
+
+export interface LevelScore {
+  collectibles: number;
+  completion: number;
+  time: number;
+  deaths: number;
+  total: number;
+}
+
+export interface DeathLocation {
+  // 1-based number of the last platform stood on before dying.
+  platform: number;
+  cause: DeathCause;
+}
+
+// What GameScreen reports when a level is finished.
+export interface LevelResult {
+  score: LevelScore;
+  collected: number;
+  totalCollectibles: number;
+  deaths: number;
+  elapsedSeconds: number;
+  jumps: number;
+  // Highest 1-based platform number stood on, out of totalPlatforms.
+  furthestPlatform: number;
+  totalPlatforms: number;
+  // One entry per death, in order.
+  deathLocations: DeathLocation[];
+}
+
+export function getCollectibleValue(type: Collectible['type']): number {
+  return COLLECTIBLE_VALUES[type] ?? COLLECTIBLE_VALUES.coin;
+}
+
+export function getCollectedScore(collectibles: ReadonlyArray<{ type: Collectible['type']; collected: boolean }>): number {
+  return collectibles.reduce((sum, c) => (c.collected ? sum + getCollectibleValue(c.type) : sum), 0);
+}
+
+/**
+ * Scores a level. In-progress levels only count collectibles and deaths; the
+ * completion and time bonuses are awarded on finishing. Never negative.
+ */
+export function calculateLevelScore({ collectibleScore, elapsedSeconds, deaths, completed }: LevelScoreInput): LevelScore {
+  const completion = completed ? LEVEL_COMPLETE_BONUS : 0;
+  const time = completed ? Math.max(0, Math.round((TIME_BONUS_SECONDS - elapsedSeconds) * TIME_BONUS_PER_SECOND)) : 0;
+  const deathPenalty = deaths * DEATH_PENALTY;
+  return {
+    collectibles: collectibleScore,
+    completion,
+    time,
+    deaths: -deathPenalty,
+    total: Math.max(0, collectibleScore + completion + time - deathPenalty),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * @fileOverview The segments of an endless level, requested ahead of the player.
+ *
+ * An endless level starts out as its first segment. While the player makes their way
+ * through segment N, segments up to N + SEGMENT_LOOKAHEAD are requested; each is added
+ * to the level, in order, once it has arrived and the one before it is in place.
+ *
+ * - createSegmentStream - An empty stream, continuing after the given segment.
+ * - fillSegmentStream - Requests the segments the player will need next.
+ * - takeNextSegment - Removes and returns the next segment once it has arrived.
+ */
+
+// How many segments beyond the player's current one are requested.
+export const SEGMENT_LOOKAHEAD = 2;
+
+export interface SegmentEntry<T> {
+  index: number;
+  request: Promise<T>;
+  // Set once the request settles.
+  outcome: T | null;
+}
+
+export interface SegmentStream<T> {
+  // Index of the next segment to add to the level.
+  nextIndex: number;
+  entries: SegmentEntry<T>[];
+}
+
+export function createSegmentStream<T>(lastIndex: number = 0): SegmentStream<T> {
+  return { nextIndex: lastIndex + 1, entries: [] };
+}
+
+/**
+ * Requests every segment from the next one to be added up to SEGMENT_LOOKAHEAD past
+ * `currentIndex`, the segment the player is in, that is not already requested.
+ * `fetch` should report failures in its result rather than reject; a request that
+ * rejects anyway is dropped, so the next call requests the segment again.
+ * `onSettled` is called as each arrives.
+ */
+export function fillSegmentStream<T>(
+  stream: SegmentStream<T>,
+  currentIndex: number,
+  fetch: (index: number) => Promise<T>,
+  onSettled?: (entry: SegmentEntry<T>) => void,
+): void {
+  for (let index = stream.nextIndex; index <= currentIndex + SEGMENT_LOOKAHEAD; index++) {
+    if (stream.entries.some(entry => entry.index === index)) continue;
+    const entry: SegmentEntry<T> = { index, request: fetch(index), outcome: null };
+    entry.request.then(
+      outcome => {
+        entry.outcome = outcome;
+        onSettled?.(entry);
+      },
+      () => {
+        stream.entries = stream.entries.filter(candidate => candidate !== entry);
+      },
+    );
+    stream.entries.push(entry);
+  }
+}
+
+export function takeNextSegment<T>(stream: SegmentStream<T>): T | null {
+  const position = stream.entries.findIndex(entry => entry.index === stream.nextIndex && entry.outcome !== null);
+  if (position === -1) return null;
+  const [entry] = stream.entries.splice(position, 1);
+  stream.nextIndex++;
+  return entry.outcome;
+}
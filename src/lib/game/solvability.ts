@@ -0,0 +1,185 @@
+/**
+ * @fileOverview Reachability analysis for generated levels.
+ *
+ * Builds a jump graph over the level's platforms using the engine's real movement
+ * constants and platform behaviours, then searches it from the spawn platform to the
+ * goal platform. The analysis is optimistic about timing: the player may wait for a
+ * mobile platform to reach any point of its range and for a timed platform to
+ * reappear. Obstacles are treated as avoidable and ceilings are not modelled.
+ *
+ * - analyzeSolvability - Checks whether the goal can be reached from the spawn.
+ * - getJumpReach - Horizontal reach of a jump that lands a given height above takeoff.
+ */
+
+import type { ParsedLevelData } from '@/types';
+import { createWorld, type PlatformObject } from '@/lib/game/engine';
+import { PLAYER_WIDTH, PLAYER_SPEED, JUMP_FORCE, GRAVITY, BREAKABLE_PLATFORM_BREAK_DELAY } from '@/lib/game/constants';
+
+// The engine applies gravity before moving, so after n airborne ticks the feet are
+// JUMP_FORCE * n - GRAVITY * n * (n + 1) / 2 above the takeoff height.
+const ASCENT_SPEED = JUMP_FORCE - GRAVITY / 2;
+
+export const MAX_JUMP_HEIGHT = (ASCENT_SPEED * ASCENT_SPEED) / (2 * GRAVITY);
+
+// How far a breakable platform lets the player run before it gives way.
+const BREAKABLE_RUN_DISTANCE = BREAKABLE_PLATFORM_BREAK_DELAY * PLAYER_SPEED;
+
+export interface FailingGap {
+  fromPlatform: number;
+  toPlatform: number;
+  // Horizontal distance the player would have to cover in the air.
+  horizontalGap: number;
+  // How far above the takeoff platform the landing platform is (negative for drops).
+  rise: number;
+  maxHorizontalReach: number;
+  maxJumpHeight: number;
+}
+
+export interface SolvabilityReport {
+  solvable: boolean;
+  startPlatform: number;
+  goalPlatform: number;
+  reachablePlatforms: number[];
+  // Platform indices from start to goal when solvable.
+  path?: number[];
+  // The closest jump the player cannot make, when unsolvable.
+  failingGap?: FailingGap;
+}
+
+interface Span {
+  min: number;
+  max: number;
+}
+
+interface PlatformEnvelope {
+  // Player x positions from which the player stands on the platform, over its whole movement range.
+  standX: Span;
+  // Top surface y over the platform's movement range.
+  top: Span;
+  breakable: boolean;
+}
+
+/**
+ * Horizontal distance the player can cover during a jump that lands `rise` units
+ * above the takeoff height, or null when the landing is higher than the jump apex.
+ */
+export function getJumpReach(rise: number): number | null {
+  const discriminant = ASCENT_SPEED * ASCENT_SPEED - 2 * GRAVITY * rise;
+  if (discriminant < 0) return null;
+  const landingTick = Math.ceil((ASCENT_SPEED + Math.sqrt(discriminant)) / GRAVITY);
+  return landingTick * PLAYER_SPEED;
+}
+
+function getEnvelope(p: PlatformObject): PlatformEnvelope {
+  const rangeX = p.type === 'mobile' ? p.moveRangeX ?? 0 : 0;
+  const rangeY = p.type === 'vertical_mobile' ? p.moveRangeY ?? 0 : 0;
+  return {
+    // Standing needs at least a sliver of overlap with the platform.
+    standX: { min: p.initialX - rangeX - PLAYER_WIDTH + 1, max: p.initialX + rangeX + p.width - 1 },
+    top: { min: p.initialY - rangeY, max: p.initialY + rangeY },
+    breakable: p.type === 'breakable',
+  };
+}
+
+const spanGap = (a: Span, b: Span): number => Math.max(0, b.min - a.max, a.min - b.max);
+
+function describeJump(from: Span, fromTop: Span, to: PlatformEnvelope) {
+  // Waiting lets the player pick the most favourable heights of both platforms.
+  const rise = fromTop.min - to.top.max;
+  const reach = getJumpReach(rise);
+  const horizontalGap = spanGap(from, to.standX);
+  return { rise, reach, horizontalGap, possible: reach !== null && horizontalGap <= reach };
+}
+
+/**
+ * Checks whether the level's goal platform can be reached from its spawn platform,
+ * using the same spawn and goal the engine picks.
+ */
+export function analyzeSolvability(level: ParsedLevelData): SolvabilityReport {
+  const world = createWorld(level);
+  const platforms = world.platforms;
+  const startPlatform = world.spawnPlatform ? platforms.indexOf(world.spawnPlatform) : -1;
+  const goalPlatform = world.goalPlatform ? platforms.indexOf(world.goalPlatform) : -1;
+
+  if (startPlatform === -1 || goalPlatform === -1) {
+    return { solvable: false, startPlatform, goalPlatform, reachablePlatforms: [] };
+  }
+
+  const envelopes = platforms.map(getEnvelope);
+  // Player x positions known to be reachable on each platform. Non-breakable platforms
+  // can be walked end to end; breakable ones only a short run from where they were landed on.
+  const reachedX: (Span | null)[] = platforms.map(() => null);
+  const parents: number[] = platforms.map(() => -1);
+
+  reachedX[startPlatform] = envelopes[startPlatform].standX;
+  const queue = [startPlatform];
+
+  while (queue.length > 0) {
+    const from = queue.shift()!;
+    const fromX = reachedX[from]!;
+
+    envelopes.forEach((to, index) => {
+      if (index === from) return;
+      const jump = describeJump(fromX, envelopes[from].top, to);
+      if (!jump.possible) return;
+
+      let landing: Span = to.standX;
+      if (to.breakable) {
+        const reach = jump.reach!;
+        landing = {
+          min: Math.max(to.standX.min, fromX.min - reach - BREAKABLE_RUN_DISTANCE),
+          max: Math.min(to.standX.max, fromX.max + reach + BREAKABLE_RUN_DISTANCE),
+        };
+      }
+
+      const known = reachedX[index];
+      if (known && known.min <= landing.min && known.max >= landing.max) return;
+      reachedX[index] = known ? { min: Math.min(known.min, landing.min), max: Math.max(known.max, landing.max) } : landing;
+      if (parents[index] === -1 && index !== startPlatform) parents[index] = from;
+      queue.push(index);
+    });
+  }
+
+  const reachablePlatforms = reachedX.flatMap((span, index) => (span ? [index] : []));
+
+  if (reachedX[goalPlatform]) {
+    const path = [goalPlatform];
+    while (path[0] !== startPlatform) path.unshift(parents[path[0]]);
+    return { solvable: true, startPlatform, goalPlatform, reachablePlatforms, path };
+  }
+
+  // Report the unreachable platform that comes closest to being reachable, preferring
+  // platforms further along the level when several are equally close.
+  let failingGap: FailingGap | undefined;
+  let bestShortfall = Infinity;
+  for (const from of reachablePlatforms) {
+    envelopes.forEach((to, index) => {
+      if (reachedX[index]) return;
+      const jump = describeJump(reachedX[from]!, envelopes[from].top, to);
+      const shortfall = jump.reach === null
+        ? jump.rise - MAX_JUMP_HEIGHT + jump.horizontalGap
+        : jump.horizontalGap - jump.reach;
+      const isFurther = failingGap !== undefined && platforms[index].initialX > platforms[failingGap.toPlatform].initialX;
+      if (shortfall < bestShortfall || (shortfall === bestShortfall && isFurther)) {
+        bestShortfall = shortfall;
+        failingGap = {
+          fromPlatform: from,
+          toPlatform: index,
+          horizontalGap: jump.horizontalGap,
+          rise: jump.rise,
+          maxHorizontalReach: jump.reach ?? 0,
+          maxJumpHeight: MAX_JUMP_HEIGHT,
+        };
+      }
+    });
+  }
+
+  return { solvable: false, startPlatform, goalPlatform, reachablePlatforms, failingGap };
+}
+
+export function describeFailingGap(gap: FailingGap): string {
+  const heightNote = gap.rise > gap.maxJumpHeight
+    ? `it is ${gap.rise.toFixed(0)} units higher but the player can only jump ${gap.maxJumpHeight.toFixed(0)}`
+    : `the gap is ${gap.horizontalGap.toFixed(0)} units wide but the player can only cover ${gap.maxHorizontalReach.toFixed(0)} at that height`;
+  return `Platform ${gap.toPlatform} cannot be reached from platform ${gap.fromPlatform}: ${heightNote}.`;
+}
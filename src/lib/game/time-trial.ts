@@ -0,0 +1,74 @@
+/**
+ * @fileOverview Time-trial timing and splits.
+ *
+ * Time trials are timed in simulation ticks rather than wall-clock time: the clock only
+ * runs while the world is stepped, so pauses, loading and background tabs never count,
+ * and the same inputs always take the same time. The first landing on each checkpoint
+ * records a split, which is compared with the split at that checkpoint in the
+ * personal best.
+ *
+ * - ticksToSeconds - Converts simulation ticks to seconds.
+ * - formatTrialTime - A tick count as mm:ss.cc.
+ * - formatTrialDelta - A tick difference as signed seconds.
+ * - getLiveDelta - How far ahead of or behind the personal best a run in progress is.
+ * - compareSplits - A finished run's splits next to the personal best's.
+ */
+
+import { SIMULATION_HZ } from '@/lib/game/constants';
+
+// Restarts the level from the start in time-trial mode.
+export const RESTART_KEY = 'KeyR';
+
+export interface Split {
+  // 1-based number of the checkpoint platform.
+  checkpoint: number;
+  ticks: number;
+}
+
+export interface TimeTrialRun {
+  ticks: number;
+  splits: Split[];
+}
+
+export interface SplitComparison extends Split {
+  // Ticks ahead (negative) or behind (positive) the personal best at this checkpoint,
+  // or null when the best run did not land on it.
+  delta: number | null;
+}
+
+export function ticksToSeconds(ticks: number): number {
+  return ticks / SIMULATION_HZ;
+}
+
+export function formatTrialTime(ticks: number): string {
+  const totalHundredths = Math.floor((ticks * 100) / SIMULATION_HZ);
+  const minutes = Math.floor(totalHundredths / 6000);
+  const seconds = Math.floor(totalHundredths / 100) % 60;
+  const hundredths = totalHundredths % 100;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(hundredths).padStart(2, '0')}`;
+}
+
+export function formatTrialDelta(ticks: number): string {
+  return `${ticks > 0 ? '+' : ticks < 0 ? '−' : '±'}${ticksToSeconds(Math.abs(ticks)).toFixed(2)}`;
+}
+
+/**
+ * The run's delta against the personal best: at the last split reached, or, once the
+ * run is past the time the best took to its next split or the finish, the growing
+ * amount by which it is behind. Null with no personal best or nothing to compare yet.
+ */
+export function getLiveDelta(best: TimeTrialRun | null, splits: Split[], ticks: number): number | null {
+  if (!best) return null;
+  const last = splits[splits.length - 1];
+  const lastBestIndex = last ? best.splits.findIndex(split => split.checkpoint === last.checkpoint) : -1;
+  const nextBestTicks = best.splits[lastBestIndex + 1]?.ticks ?? best.ticks;
+  if (ticks > nextBestTicks) return ticks - nextBestTicks;
+  return lastBestIndex !== -1 ? last.ticks - best.splits[lastBestIndex].ticks : null;
+}
+
+export function compareSplits(run: TimeTrialRun, best: TimeTrialRun | null): SplitComparison[] {
+  return run.splits.map(split => {
+    const bestSplit = best?.splits.find(candidate => candidate.checkpoint === split.checkpoint);
+    return { ...split, delta: bestSplit ? split.ticks - bestSplit.ticks : null };
+  });
+}
@@ -0,0 +1,51 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { mergeCompletion, type LevelStore, type StoredLevel } from '@/lib/server/stored-level';
+
+// Stores each level as a JSON file named after its id. Meant for local development,
+// where a single server process is writing.
+export function createFileLevelStore(directory: string): LevelStore {
+  const getPath = (id: string) => path.join(directory, `${id.replace(/[^a-z0-9-]/gi, '_')}.json`);
+
+  const read = async (id: string): Promise<StoredLevel | null> => {
+    try {
+      return JSON.parse(await fs.readFile(getPath(id), 'utf8')) as StoredLevel;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  const write = async (level: StoredLevel): Promise<void> => {
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(getPath(level.id), JSON.stringify(level, null, 2));
+  };
+
+  const update = async (id: string, change: (level: StoredLevel) => StoredLevel): Promise<void> => {
+    const level = await read(id);
+    if (level) await write(change(level));
+  };
+
+  return {
+    get: read,
+    add: async level => {
+      if (!(await read(level.id))) await write(level);
+    },
+    list: async ({ source, difficulty }, limit) => {
+      let files: string[];
+      try {
+        files = (await fs.readdir(directory)).filter(file => file.endsWith('.json'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+      const levels = await Promise.all(files.map(file => read(path.basename(file, '.json'))));
+      return levels
+        .filter((level): level is StoredLevel => level !== null && level.source === source && level.input.difficulty === difficulty)
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, limit);
+    },
+    recordServed: id => update(id, level => ({ ...level, stats: { ...level.stats, served: level.stats.served + 1 } })),
+    recordCompletion: (id, completion) => update(id, level => ({ ...level, stats: mergeCompletion(level.stats, completion) })),
+  };
+}
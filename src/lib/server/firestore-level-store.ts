@@ -0,0 +1,69 @@
+import { initializeApp, getApps, getApp } from 'firebase/app';
+import {
+  getFirestore,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  limit as limitTo,
+  runTransaction,
+  updateDoc,
+  increment,
+  type Firestore,
+} from 'firebase/firestore/lite';
+import { mergeCompletion, type LevelStore, type StoredLevel } from '@/lib/server/stored-level';
+
+const LEVELS_COLLECTION = 'levels';
+const FIREBASE_APP_NAME = 'level-store';
+
+// Firebase App Hosting and Cloud Run set the project id for us.
+export function getFirestoreProjectId(): string | undefined {
+  return process.env.FIREBASE_PROJECT_ID ?? process.env.GOOGLE_CLOUD_PROJECT ?? process.env.GCLOUD_PROJECT;
+}
+
+function getLevelDatabase(): Firestore {
+  const projectId = getFirestoreProjectId();
+  if (!projectId) throw new Error("No Firebase project is configured for the level store.");
+  const app = getApps().some(existing => existing.name === FIREBASE_APP_NAME)
+    ? getApp(FIREBASE_APP_NAME)
+    : initializeApp({ projectId, apiKey: process.env.FIREBASE_API_KEY }, FIREBASE_APP_NAME);
+  return getFirestore(app);
+}
+
+// Firestore rejects undefined fields, which optional properties leave behind.
+const toDocument = (level: StoredLevel) => JSON.parse(JSON.stringify(level)) as StoredLevel;
+
+// Stores each level as a document in the `levels` collection, keyed by its id.
+export function createFirestoreLevelStore(): LevelStore {
+  const db = getLevelDatabase();
+  const levelRef = (id: string) => doc(db, LEVELS_COLLECTION, id);
+
+  return {
+    get: async id => {
+      const snapshot = await getDoc(levelRef(id));
+      return snapshot.exists() ? (snapshot.data() as StoredLevel) : null;
+    },
+    add: level => runTransaction(db, async transaction => {
+      const existing = await transaction.get(levelRef(level.id));
+      if (!existing.exists()) transaction.set(levelRef(level.id), toDocument(level));
+    }),
+    list: async ({ source, difficulty }, limit) => {
+      const snapshot = await getDocs(query(
+        collection(db, LEVELS_COLLECTION),
+        where('source', '==', source),
+        where('input.difficulty', '==', difficulty),
+        limitTo(limit),
+      ));
+      return snapshot.docs.map(levelDoc => levelDoc.data() as StoredLevel);
+    },
+    recordServed: id => updateDoc(levelRef(id), { 'stats.served': increment(1) }),
+    recordCompletion: (id, completion) => runTransaction(db, async transaction => {
+      const snapshot = await transaction.get(levelRef(id));
+      if (!snapshot.exists()) return;
+      const level = snapshot.data() as StoredLevel;
+      transaction.update(levelRef(id), { stats: mergeCompletion(level.stats, completion) });
+    }),
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * @fileOverview Server-side store of generated levels.
+ *
+ * Every level the server generates is recorded with the parameters and seed it was
+ * built from, its solvability report and how players fared on it. The store serves
+ * seeded AI levels again (AI output cannot be rebuilt from a seed) and stands in for
+ * the model when it is slow, failing or not configured.
+ *
+ * Levels are kept as JSON files locally and in Firestore in production; see
+ * `getLevelStore`. Store failures are logged and never fail level generation.
+ *
+ * - getLevelStore - The configured store, or null when storing is disabled.
+ * - storeLevel - Records a newly generated level.
+ * - findStoredLevel - Looks up a level by source, difficulty rating, seed and parameters.
+ * - pickStoredLevel - Picks one of the best-rated stored levels near a difficulty rating.
+ * - recordLevelCompletion - Adds a finished attempt to a level's play stats.
+ */
+
+import type { GenerateLevelInput, GenerateLevelOutput } from '@/ai/flows/generate-level';
+import type { LevelSource } from '@/types';
+import { parseLevelData } from '@/lib/game/level-schema';
+import { analyzeSolvability } from '@/lib/game/solvability';
+import { getDifficultyBand } from '@/lib/game/difficulty';
+import type { GenerationParameters } from '@/lib/game/generation-input';
+import {
+  getStoredLevelId,
+  createEmptyPlayStats,
+  type LevelStore,
+  type StoredLevel,
+  type LevelCompletion,
+} from '@/lib/server/stored-level';
+import { createFileLevelStore } from '@/lib/server/file-level-store';
+import { createFirestoreLevelStore, getFirestoreProjectId } from '@/lib/server/firestore-level-store';
+
+// Where stored levels are written when running locally.
+const DEFAULT_LEVEL_STORE_DIR = '.level-store';
+// How many stored levels are considered when picking one, and how many of the best are picked from.
+const CANDIDATE_LIMIT = 50;
+const TOP_CHOICES = 5;
+// How far a stored level's rating may be from the requested one.
+const MAX_RATING_DISTANCE = 10;
+
+let levelStore: LevelStore | null | undefined;
+
+/**
+ * LEVEL_STORE selects the backend: 'firestore', 'file' or 'none'. By default production
+ * uses Firestore when a Firebase project is configured, and everything else uses JSON
+ * files in LEVEL_STORE_DIR.
+ */
+export function getLevelStore(): LevelStore | null {
+  if (levelStore !== undefined) return levelStore;
+  const backend = process.env.LEVEL_STORE
+    ?? (process.env.NODE_ENV === 'production' && getFirestoreProjectId() ? 'firestore' : 'file');
+  switch (backend) {
+    case 'firestore':
+      levelStore = createFirestoreLevelStore();
+      break;
+    case 'file':
+      levelStore = createFileLevelStore(process.env.LEVEL_STORE_DIR ?? DEFAULT_LEVEL_STORE_DIR);
+      break;
+    default:
+      levelStore = null;
+  }
+  return levelStore;
+}
+
+async function withStore<T>(action: string, fallback: T, run: (store: LevelStore) => Promise<T>): Promise<T> {
+  try {
+    const store = getLevelStore();
+    return store ? await run(store) : fallback;
+  } catch (error) {
+    console.error(`Level store: could not ${action}:`, error); // For server-side debugging
+    return fallback;
+  }
+}
+
+/**
+ * Records a generated level and returns its id, or null when it could not be stored.
+ * Levels that fail validation are not stored.
+ */
+export async function storeLevel(
+  output: GenerateLevelOutput,
+  level: { source: LevelSource; seed: number; input: GenerateLevelInput; parameters?: GenerationParameters },
+): Promise<string | null> {
+  const validation = parseLevelData(output.levelData);
+  if (!validation.success) return null;
+  const id = getStoredLevelId(level.source, level.input.difficultyRating, level.seed, level.parameters);
+  const stored: StoredLevel = {
+    ...output,
+    ...level,
+    id,
+    solvability: analyzeSolvability(validation.level),
+    stats: createEmptyPlayStats(),
+    createdAt: Date.now(),
+  };
+  return withStore('store a level', null, async store => {
+    await store.add(stored);
+    return id;
+  });
+}
+
+export async function findStoredLevel(
+  source: LevelSource,
+  difficultyRating: number,
+  seed: number,
+  parameters?: GenerationParameters,
+): Promise<StoredLevel | null> {
+  return withStore('look up a level', null, async store => {
+    const level = await store.get(getStoredLevelId(source, difficultyRating, seed, parameters));
+    if (level) await store.recordServed(level.id);
+    return level;
+  });
+}
+
+// Levels players finish more often rank higher; new levels start in the middle.
+const getRating = ({ stats }: StoredLevel): number => (stats.completions + 1) / (stats.served + 2);
+
+/**
+ * Picks a random level among the best-rated solvable stored levels within
+ * MAX_RATING_DISTANCE of a difficulty rating, or null when there are none. Levels
+ * built to parameters a player set are left out.
+ */
+export async function pickStoredLevel(source: LevelSource, difficultyRating: number): Promise<StoredLevel | null> {
+  return withStore('pick a stored level', null, async store => {
+    const candidates = (await store.list({ source, difficulty: getDifficultyBand(difficultyRating) }, CANDIDATE_LIMIT))
+      .filter(level => level.solvability.solvable
+        && !level.parameters
+        && Math.abs(level.input.difficultyRating - difficultyRating) <= MAX_RATING_DISTANCE)
+      .sort((a, b) => getRating(b) - getRating(a))
+      .slice(0, TOP_CHOICES);
+    if (candidates.length === 0) return null;
+    const level = candidates[Math.floor(Math.random() * candidates.length)];
+    await store.recordServed(level.id);
+    return level;
+  });
+}
+
+export async function recordLevelCompletion(id: string, completion: LevelCompletion): Promise<void> {
+  await withStore('record a completion', undefined, store => store.recordCompletion(id, completion));
+}
@@ -0,0 +1,78 @@
+/**
+ * @fileOverview The shape of stored levels and the interface each store backend implements.
+ *
+ * - getStoredLevelId - The id a generated level is stored under.
+ * - createEmptyPlayStats / mergeCompletion - Play stats bookkeeping.
+ */
+
+import { createHash } from 'crypto';
+import type { GenerateLevelInput, GenerateLevelOutput } from '@/ai/flows/generate-level';
+import type { LevelSource } from '@/types';
+import type { SolvabilityReport } from '@/lib/game/solvability';
+import type { GenerationParameters } from '@/lib/game/generation-input';
+import { formatSeed } from '@/lib/game/random';
+
+export interface LevelPlayStats {
+  // How many times the level was handed out.
+  served: number;
+  completions: number;
+  // Summed over completions.
+  deaths: number;
+  totalSeconds: number;
+  bestSeconds: number | null;
+}
+
+export interface StoredLevel extends GenerateLevelOutput {
+  id: string;
+  source: LevelSource;
+  seed: number;
+  input: GenerateLevelInput;
+  // The parameters the request set itself, when it did not leave them all to the rating.
+  parameters?: GenerationParameters;
+  solvability: SolvabilityReport;
+  stats: LevelPlayStats;
+  createdAt: number;
+}
+
+export interface LevelCompletion {
+  deaths: number;
+  elapsedSeconds: number;
+}
+
+// The operations each backend implements.
+export interface LevelStore {
+  get(id: string): Promise<StoredLevel | null>;
+  // Adds a level; a level that is already stored keeps its play stats.
+  add(level: StoredLevel): Promise<void>;
+  // Levels of a source whose rating falls in a difficulty band.
+  list(filter: { source: LevelSource; difficulty: GenerateLevelInput['difficulty'] }, limit: number): Promise<StoredLevel[]>;
+  recordServed(id: string): Promise<void>;
+  recordCompletion(id: string, completion: LevelCompletion): Promise<void>;
+}
+
+// The same seed builds different levels at different ratings and parameters, so they are
+// part of the id too.
+export function getStoredLevelId(source: LevelSource, difficultyRating: number, seed: number, parameters?: GenerationParameters): string {
+  const id = `${source}-${difficultyRating}-${formatSeed(seed).toLowerCase()}`;
+  if (!parameters) return id;
+  return `${id}-${createHash('sha1').update(stringifySorted(parameters)).digest('hex').slice(0, 8)}`;
+}
+
+// JSON with object keys in a fixed order, so equal parameters always hash the same.
+function stringifySorted(value: unknown): string {
+  if (!value || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  const entries = Object.entries(value).filter(([, entry]) => entry !== undefined).sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stringifySorted(entry)}`).join(',')}}`;
+}
+
+export const createEmptyPlayStats = (): LevelPlayStats => ({ served: 0, completions: 0, deaths: 0, totalSeconds: 0, bestSeconds: null });
+
+export function mergeCompletion(stats: LevelPlayStats, { deaths, elapsedSeconds }: LevelCompletion): LevelPlayStats {
+  return {
+    ...stats,
+    completions: stats.completions + 1,
+    deaths: stats.deaths + deaths,
+    totalSeconds: stats.totalSeconds + elapsedSeconds,
+    bestSeconds: stats.bestSeconds === null ? elapsedSeconds : Math.min(stats.bestSeconds, elapsedSeconds),
+  };
+}
@@ -1,9 +1,24 @@
 
+// Where a level comes from: the Genkit flow or the offline procedural generator.
+export type LevelSource = 'ai' | 'procedural';
+
+// A run of separate levels, one endless level streamed in segments, or a run of levels
+// timed in simulation ticks against personal bests.
+export type GameMode = 'levels' | 'endless' | 'time-trial';
+
+// A level loaded from a file, a share link or the editor rather than generated.
+export interface ImportedLevel {
+  levelData: string;
+  source: 'file' | 'link' | 'editor';
+}
+
 export interface Platform {
   x: number;
   y: number;
   width: number;
   type?: 'standard' | 'mobile' | 'vertical_mobile' | 'timed' | 'breakable' | string;
+  // Standard platforms only: once landed on, the player respawns here.
+  checkpoint?: boolean;
 }
 
 export interface Obstacle {
@@ -14,11 +29,27 @@ export interface Obstacle {
   height?: number; // Optional height for obstacles
 }
 
+// Picked up by touching it; adds to the score.
+export interface Collectible {
+  x: number;
+  y: number;
+  type: 'coin' | 'gem' | string;
+}
+
 export interface ParsedLevelData {
   platforms: Platform[];
   obstacles: Obstacle[];
+  collectibles?: Collectible[];
   // Potentially add other level elements like start/end points if AI provides them
   startPoint?: { x: number; y: number };
   endPoint?: { x: number; y: number };
 }
 
+
+// A problem found while validating level data. Warnings were repaired automatically;
+// errors make the level unusable.
+export interface LevelIssue {
+  path: string;
+  message: string;
+  severity: 'warning' | 'error';
+}